@@ -0,0 +1,365 @@
+import { ZodFirstPartyTypeKind, ZodTypeAny } from 'zod';
+
+import { RouteBodyError } from './errors';
+import { ArrayParsing, parseEntries } from './parseEntries';
+import { getSchemaKind, getSchemaOptions } from './utils';
+
+/**
+ * Limits of the request body, violations are rejected with a 413 response.
+ * They are checked while the body is streamed: the file limits of multipart bodies when their parts are received,
+ * and `maxBodySize` for every content type. Only `maxBodySize` bounds the total size of the buffered body.
+ */
+export type BodyLimits = {
+  /** Maximum size of the body in bytes, checked against the Content-Length header and while the body is read */
+  maxBodySize?: number;
+  /** Maximum size of each uploaded file in bytes */
+  maxFileSize?: number;
+  /** Maximum number of uploaded files */
+  maxFiles?: number;
+  /** Accepted MIME types of uploaded files, e.g. `image/*`, other types are rejected with a 415 response */
+  fileTypes?: string[];
+};
+
+export type BodyParserOptions = {
+  /** The body schema of the route */
+  schema: ZodTypeAny | undefined;
+  arrayParsing: ArrayParsing | undefined;
+  limits: BodyLimits;
+};
+
+/**
+ * Parse the body of a request. Errors thrown by the parser are returned as a 400 response.
+ */
+export type BodyParser = (request: Request, options: BodyParserOptions) => unknown;
+
+/**
+ * Check the uploaded files of a form against the file limits
+ */
+function checkFiles(formData: FormData, limits: BodyLimits) {
+  let count = 0;
+
+  for (const [, value] of formData.entries()) {
+    if (typeof value === 'string') {
+      continue;
+    }
+
+    count += 1;
+    if (limits.maxFiles !== undefined && count > limits.maxFiles) {
+      throw new RouteBodyError(413, `Too many files, the maximum is ${limits.maxFiles}`);
+    }
+    if (limits.maxFileSize !== undefined && value.size > limits.maxFileSize) {
+      throw new RouteBodyError(413, `File "${value.name}" exceeds the maximum size of ${limits.maxFileSize} bytes`);
+    }
+    if (limits.fileTypes && !limits.fileTypes.some((pattern) => matchesMediaType(value.type, pattern))) {
+      throw new RouteBodyError(415, `Unsupported file type "${value.type}" for file "${value.name}"`);
+    }
+  }
+}
+
+function expectsString(schema: ZodTypeAny | undefined) {
+  return (
+    !!schema && getSchemaOptions(schema).some((option) => getSchemaKind(option) === ZodFirstPartyTypeKind.ZodString)
+  );
+}
+
+/**
+ * Built-in body parsers, to register for other content types
+ */
+export const bodyParsers = {
+  json: async (request: Request) => {
+    const text = await request.text();
+    return text ? JSON.parse(text) : undefined;
+  },
+  form: async (request: Request, { schema, arrayParsing, limits }: BodyParserOptions) => {
+    const formData = await request.formData();
+    checkFiles(formData, limits);
+    return parseEntries(formData.entries(), schema, arrayParsing);
+  },
+  text: async (request: Request, { schema }: BodyParserOptions) => {
+    const text = await request.text();
+    if (expectsString(schema)) {
+      return text;
+    }
+
+    // `fetch` sends string bodies as text/plain by default, so JSON is accepted unless the schema expects a string
+    try {
+      return text ? JSON.parse(text) : undefined;
+    } catch (error) {
+      if (schema) {
+        throw error;
+      }
+      return text;
+    }
+  },
+  ndjson: async (request: Request) => {
+    const text = await request.text();
+    return text
+      .split('\n')
+      .filter((line) => line.trim() !== '')
+      .map((line) => JSON.parse(line));
+  },
+  arrayBuffer: (request: Request) => request.arrayBuffer(),
+  blob: (request: Request) => request.blob(),
+} satisfies Record<string, BodyParser>;
+
+/**
+ * Body parsers keyed by media type, `type/*` and `*\/*` wildcards are supported
+ */
+export const defaultBodyParsers: Record<string, BodyParser> = {
+  'application/json': bodyParsers.json,
+  'application/x-www-form-urlencoded': bodyParsers.form,
+  'multipart/form-data': bodyParsers.form,
+  'application/x-ndjson': bodyParsers.ndjson,
+  'application/ndjson': bodyParsers.ndjson,
+  'application/octet-stream': bodyParsers.arrayBuffer,
+  'text/*': bodyParsers.text,
+};
+
+/**
+ * Get the media type of a Content-Type header, without its parameters
+ */
+export function getMediaType(contentType: string | null): string | undefined {
+  const mediaType = contentType?.split(';')[0]?.trim().toLowerCase();
+  return mediaType || undefined;
+}
+
+/**
+ * Check if a media type matches a pattern such as `application/json`, `text/*` or `*\/*`.
+ * Structured syntax suffixes are supported, so `application/problem+json` matches `application/json`.
+ */
+export function matchesMediaType(mediaType: string, pattern: string): boolean {
+  const [type, subtype = ''] = mediaType.split('/');
+  const [patternType, patternSubtype] = pattern.toLowerCase().split('/');
+  const suffix = subtype.includes('+') ? subtype.slice(subtype.lastIndexOf('+') + 1) : undefined;
+
+  return (
+    (patternType === '*' || patternType === type) &&
+    (patternSubtype === '*' || patternSubtype === subtype || patternSubtype === suffix)
+  );
+}
+
+/**
+ * Find the parser of a media type, exact matches first, then suffixes and wildcards
+ */
+function findBodyParser(parsers: Record<string, BodyParser>, mediaType: string): BodyParser | undefined {
+  const exactParser = parsers[mediaType];
+  if (exactParser) {
+    return exactParser;
+  }
+
+  const patterns = Object.keys(parsers).sort((a, b) => a.split('*').length - b.split('*').length);
+  const pattern = patterns.find((candidate) => matchesMediaType(mediaType, candidate));
+  return pattern ? parsers[pattern] : undefined;
+}
+
+function bodyTooLarge(maxBodySize: number) {
+  return new RouteBodyError(413, `Body exceeds the maximum size of ${maxBodySize} bytes`);
+}
+
+function indexOfBytes(haystack: Uint8Array, needle: Uint8Array, from = 0) {
+  outer: for (let index = from; index <= haystack.length - needle.length; index++) {
+    for (let offset = 0; offset < needle.length; offset++) {
+      if (haystack[index + offset] !== needle[offset]) {
+        continue outer;
+      }
+    }
+    return index;
+  }
+  return -1;
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array) {
+  const bytes = new Uint8Array(a.byteLength + b.byteLength);
+  bytes.set(a);
+  bytes.set(b, a.byteLength);
+  return bytes;
+}
+
+// Size of the part headers above which a multipart body is considered malformed
+const maxPartHeadersSize = 16 * 1024;
+
+/**
+ * Create a scanner checking the files of a multipart body against the file limits while it is streamed,
+ * so an oversized or unexpected upload is rejected before it is buffered in full
+ * @returns A function to call with each chunk of the body, or undefined when there are no file limits to check
+ */
+function createMultipartLimiter(contentType: string | null, limits: BodyLimits) {
+  const boundary = contentType
+    ?.match(/boundary=(?:"([^"]+)"|([^;]+))/i)
+    ?.slice(1)
+    .find(Boolean);
+  if (!boundary || (limits.maxFileSize === undefined && limits.maxFiles === undefined && !limits.fileTypes)) {
+    return undefined;
+  }
+
+  const encoder = new TextEncoder();
+  const delimiter = encoder.encode(`\r\n--${boundary}`);
+  const headersEnd = encoder.encode('\r\n\r\n');
+  // The first delimiter isn't preceded by a line break
+  let pending = encoder.encode('\r\n');
+  let state: 'body' | 'headers' | 'done' = 'body';
+  let file: { name: string; size: number } | undefined;
+  let files = 0;
+
+  const addFileBytes = (size: number) => {
+    if (!file) {
+      return;
+    }
+    file.size += size;
+    if (limits.maxFileSize !== undefined && file.size > limits.maxFileSize) {
+      throw new RouteBodyError(413, `File "${file.name}" exceeds the maximum size of ${limits.maxFileSize} bytes`);
+    }
+  };
+
+  const startPart = (headers: string) => {
+    const name = headers.match(/filename="([^"]*)"/i)?.[1];
+    if (name === undefined) {
+      file = undefined;
+      return;
+    }
+
+    files += 1;
+    if (limits.maxFiles !== undefined && files > limits.maxFiles) {
+      throw new RouteBodyError(413, `Too many files, the maximum is ${limits.maxFiles}`);
+    }
+    const type =
+      headers
+        .match(/content-type:\s*([^\r\n;]+)/i)?.[1]
+        ?.trim()
+        .toLowerCase() ?? '';
+    if (limits.fileTypes && !limits.fileTypes.some((pattern) => matchesMediaType(type, pattern))) {
+      throw new RouteBodyError(415, `Unsupported file type "${type}" for file "${name}"`);
+    }
+    file = { name, size: 0 };
+  };
+
+  return (chunk: Uint8Array) => {
+    pending = concatBytes(pending, chunk);
+
+    while (state !== 'done') {
+      if (state === 'body') {
+        const index = indexOfBytes(pending, delimiter);
+        if (index === -1) {
+          // Keep the bytes that may be the start of the next delimiter
+          const consumed = Math.max(0, pending.length - delimiter.length + 1);
+          addFileBytes(consumed);
+          pending = pending.slice(consumed);
+          return;
+        }
+        addFileBytes(index);
+        pending = pending.slice(index + delimiter.length);
+        state = 'headers';
+        continue;
+      }
+
+      if (pending.length < 2) {
+        return;
+      }
+      // The closing delimiter is followed by `--`
+      if (pending[0] === 0x2d && pending[1] === 0x2d) {
+        state = 'done';
+        return;
+      }
+      const index = indexOfBytes(pending, headersEnd);
+      if (index === -1) {
+        if (pending.length > maxPartHeadersSize) {
+          throw new RouteBodyError(400, 'Malformed body');
+        }
+        return;
+      }
+      startPart(new TextDecoder().decode(pending.slice(0, index)));
+      pending = pending.slice(index + headersEnd.length);
+      state = 'body';
+    }
+  };
+}
+
+/**
+ * Read the body, checking each chunk as it is received. The stream is cancelled as soon as a limit is exceeded,
+ * so an oversized payload is never buffered in full.
+ */
+async function readLimitedBody(
+  request: Request,
+  { maxBodySize, onChunk }: { maxBodySize?: number; onChunk?: (chunk: Uint8Array) => void },
+): Promise<Request> {
+  const contentLength = Number(request.headers.get('content-length'));
+  if (maxBodySize !== undefined && contentLength > maxBodySize) {
+    throw bodyTooLarge(maxBodySize);
+  }
+
+  const reader = (request.body as NonNullable<Request['body']>).getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    size += value.byteLength;
+    try {
+      if (maxBodySize !== undefined && size > maxBodySize) {
+        throw bodyTooLarge(maxBodySize);
+      }
+      onChunk?.(value);
+    } catch (error) {
+      await reader.cancel();
+      throw error;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+
+  return new Request(request.url, { method: request.method, headers: request.headers, body });
+}
+
+/**
+ * Parse the body of a request with the parser registered for its content type
+ * @param request - The request to parse
+ * @param options - The registered parsers, the accepted content types and the options given to the parser
+ * @returns The parsed body, or undefined when the request has no body
+ * @throws RouteBodyError with status 415 for unsupported content types, 413 for bodies over the limits and 400 for malformed bodies
+ */
+export async function parseBody(
+  request: Request,
+  options: BodyParserOptions & { parsers: Record<string, BodyParser>; contentTypes?: string[] },
+): Promise<unknown> {
+  if (request.body === null || request.headers.get('content-length') === '0') {
+    return undefined;
+  }
+
+  // Bodies sent without a content type are parsed as JSON
+  const mediaType = getMediaType(request.headers.get('content-type')) ?? 'application/json';
+
+  if (options.contentTypes && !options.contentTypes.some((pattern) => matchesMediaType(mediaType, pattern))) {
+    throw new RouteBodyError(415, `Unsupported content type "${mediaType}"`);
+  }
+
+  const parser = findBodyParser(options.parsers, mediaType);
+  if (!parser) {
+    throw new RouteBodyError(415, `Unsupported content type "${mediaType}"`);
+  }
+
+  try {
+    const { maxBodySize } = options.limits;
+    const onChunk =
+      mediaType === 'multipart/form-data'
+        ? createMultipartLimiter(request.headers.get('content-type'), options.limits)
+        : undefined;
+    const limitedRequest =
+      maxBodySize !== undefined || onChunk ? await readLimitedBody(request, { maxBodySize, onChunk }) : request;
+    return await parser(limitedRequest, options);
+  } catch (error) {
+    if (error instanceof RouteBodyError) {
+      throw error;
+    }
+    throw new RouteBodyError(400, 'Malformed body');
+  }
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+
+import { createMemoryCacheStore, createZodRoute } from '.';
+
+const context = (params: Record<string, string> = {}) => ({ params: Promise.resolve(params) });
+
+const get = (url: string, headers?: Record<string, string>) => new Request(url, { headers });
+
+describe('cache', () => {
+  it('should add the Cache-Control, Vary and ETag headers to successful GET responses', async () => {
+    const GET = createZodRoute()
+      .cache({ public: true, maxAge: 60, sMaxAge: 300, staleWhileRevalidate: 30, vary: ['Accept-Language'] })
+      .handler(() => ({ id: 1 }));
+
+    const response = await GET(get('http://localhost/items'), context());
+
+    expect(response.headers.get('Cache-Control')).toBe('public, max-age=60, s-maxage=300, stale-while-revalidate=30');
+    expect(response.headers.get('Vary')).toBe('Accept-Language');
+    expect(response.headers.get('ETag')).toMatch(/^W\/"[0-9a-f]{32}"$/);
+    expect(await response.json()).toEqual({ id: 1 });
+  });
+
+  it('should answer If-None-Match with a 304 when the ETag matches', async () => {
+    const GET = createZodRoute()
+      .cache({ etag: 'strong' })
+      .handler(() => ({ id: 1 }));
+
+    const { headers } = await GET(get('http://localhost/items'), context());
+    const etag = headers.get('ETag') as string;
+    expect(etag).toMatch(/^"[0-9a-f]{32}"$/);
+    expect(headers.get('Cache-Control')).toBe('private, no-cache');
+
+    const notModified = await GET(get('http://localhost/items', { 'If-None-Match': `"other", W/${etag}` }), context());
+    expect(notModified.status).toBe(304);
+    expect(notModified.headers.get('ETag')).toBe(etag);
+    expect(notModified.body).toBeNull();
+
+    const modified = await GET(get('http://localhost/items', { 'If-None-Match': '"other"' }), context());
+    expect(modified.status).toBe(200);
+  });
+
+  it('should answer If-Modified-Since with a 304 from the Last-Modified date', async () => {
+    const GET = createZodRoute()
+      .cache({ etag: false, lastModified: (body) => (body as { updatedAt: string }).updatedAt })
+      .handler(() => ({ updatedAt: '2024-01-01T00:00:00.000Z' }));
+
+    const response = await GET(get('http://localhost/items'), context());
+    expect(response.headers.get('ETag')).toBeNull();
+    expect(response.headers.get('Last-Modified')).toBe('Mon, 01 Jan 2024 00:00:00 GMT');
+
+    const since = (date: string) => GET(get('http://localhost/items', { 'If-Modified-Since': date }), context());
+    expect((await since('Tue, 02 Jan 2024 00:00:00 GMT')).status).toBe(304);
+    expect((await since('Sun, 31 Dec 2023 00:00:00 GMT')).status).toBe(200);
+  });
+
+  it('should use a custom ETag and skip error responses and other methods', async () => {
+    const route = createZodRoute()
+      .params(z.object({ id: z.string() }))
+      .cache({ etag: () => 'v1' });
+    const GET = route.handler((request, context) =>
+      context.params.id === 'missing' ? Response.json({ message: 'Not found' }, { status: 404 }) : { id: 1 },
+    );
+    const POST = route.handler(() => ({ id: 1 }));
+
+    expect((await GET(get('http://localhost/items/1'), context({ id: '1' }))).headers.get('ETag')).toBe('"v1"');
+    expect(
+      (await GET(get('http://localhost/items/missing'), context({ id: 'missing' }))).headers.get('ETag'),
+    ).toBeNull();
+
+    const postResponse = await POST(new Request('http://localhost/items/1', { method: 'POST' }), context({ id: '1' }));
+    expect(postResponse.headers.get('ETag')).toBeNull();
+    expect(postResponse.headers.get('Cache-Control')).toBeNull();
+  });
+
+  it('should serve the responses of the store without running the handler', async () => {
+    const handler = vi.fn((request: Request, context: { params: { id: string } }) => ({ id: context.params.id }));
+    const GET = createZodRoute()
+      .params(z.object({ id: z.string() }))
+      .query(z.object({ page: z.coerce.number().default(1) }))
+      .cache({ maxAge: 60, store: createMemoryCacheStore() })
+      .handler(handler);
+
+    const first = await GET(get('http://localhost/items/1'), context({ id: '1' }));
+    // The default page validates to the same query, sharing the cached response
+    const cached = await GET(get('http://localhost/items/1?page=1'), context({ id: '1' }));
+    await GET(get('http://localhost/items/2'), context({ id: '2' }));
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(await cached.json()).toEqual({ id: '1' });
+    expect(cached.headers.get('ETag')).toBe(first.headers.get('ETag'));
+
+    const notModified = await GET(
+      get('http://localhost/items/1', { 'If-None-Match': first.headers.get('ETag') as string }),
+      context({ id: '1' }),
+    );
+    expect(notModified.status).toBe(304);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only store the responses of credentialed requests when scoped by a key', async () => {
+    const handler = vi.fn((request: Request, context: { data: { user: string } }) => ({ user: context.data.user }));
+    const route = createZodRoute().use(async ({ request }) => ({ user: request.headers.get('authorization') ?? '' }));
+    const unscopedGET = route.cache({ maxAge: 60, store: createMemoryCacheStore() }).handler(handler);
+    const scopedGET = route
+      .cache({ maxAge: 60, store: createMemoryCacheStore(), key: ({ data }) => data.user })
+      .handler(handler);
+
+    const alice = () => get('http://localhost/me', { Authorization: 'alice' });
+    const bob = () => get('http://localhost/me', { Authorization: 'bob' });
+
+    await unscopedGET(alice(), context());
+    expect(await (await unscopedGET(bob(), context())).json()).toEqual({ user: 'bob' });
+    expect(handler).toHaveBeenCalledTimes(2);
+
+    await scopedGET(alice(), context());
+    expect(await (await scopedGET(bob(), context())).json()).toEqual({ user: 'bob' });
+    expect(await (await scopedGET(alice(), context())).json()).toEqual({ user: 'alice' });
+    expect(handler).toHaveBeenCalledTimes(4);
+  });
+
+  it('should keep binary bodies intact', async () => {
+    const bytes = [0xff, 0xfe, 0, 0x80, 0x41];
+    const handler = vi.fn(
+      () => new Response(new Uint8Array(bytes), { headers: { 'Content-Type': 'application/octet-stream' } }),
+    );
+    const GET = createZodRoute().cache({ public: true, maxAge: 60, store: createMemoryCacheStore() }).handler(handler);
+
+    const first = await GET(get('http://localhost/file'), context());
+    const cached = await GET(get('http://localhost/file'), context());
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect([...new Uint8Array(await first.arrayBuffer())]).toEqual(bytes);
+    expect([...new Uint8Array(await cached.arrayBuffer())]).toEqual(bytes);
+    expect(cached.headers.get('ETag')).toBe(first.headers.get('ETag'));
+
+    // The ETag is computed from the bytes, bodies only differing in their invalid UTF-8 sequences get different tags
+    const otherGET = createZodRoute()
+      .cache()
+      .handler(() => new Response(new Uint8Array([0xfe, 0xff, 0, 0x80, 0x41])));
+    const other = await otherGET(get('http://localhost/file'), context());
+    expect(other.headers.get('ETag')).not.toBe(first.headers.get('ETag'));
+  });
+});
@@ -0,0 +1,230 @@
+import { createExpiringMap, decodeBase64, encodeBase64, hash, isStreamResponse } from './utils';
+
+/**
+ * Response stored in the server-side cache
+ */
+export type CachedResponse = {
+  status: number;
+  headers: [string, string][];
+  /** The body encoded in base64, so binary bodies are stored as is */
+  body: string;
+};
+
+/**
+ * Store of the cached responses, implement it to share them between instances (e.g. Redis)
+ */
+export type CacheStore = {
+  get(key: string): Promise<CachedResponse | undefined> | CachedResponse | undefined;
+  set(key: string, response: CachedResponse, ttl: number): Promise<void> | void;
+};
+
+/**
+ * How the ETag of a response is computed: a weak or strong hash of the body, or a custom function returning the tag
+ */
+export type ETagOption = 'weak' | 'strong' | false | ((body: Uint8Array) => string | Promise<string>);
+
+export type CacheOptions<TContext = unknown> = {
+  /** `max-age` of the Cache-Control header, in seconds */
+  maxAge?: number;
+  /** `s-maxage` of the Cache-Control header, in seconds, for shared caches such as CDNs */
+  sMaxAge?: number;
+  /** `stale-while-revalidate` of the Cache-Control header, in seconds */
+  staleWhileRevalidate?: number;
+  /** Let shared caches such as CDNs store the response, only the browser can by default (`private`) */
+  public?: boolean;
+  /** How the ETag is computed, a weak hash of the body by default */
+  etag?: ETagOption;
+  /** Compute the Last-Modified header from the response body, to answer `If-Modified-Since` */
+  lastModified?: (body: unknown) => Date | string | number | undefined;
+  /** Request headers the response depends on, added to the Vary header and to the key of the server-side cache */
+  vary?: string[];
+  /** Cache the responses on the server, keyed by the path and the validated params and query */
+  store?: CacheStore;
+  /**
+   * Scope of the responses in the store, e.g. the id of the user. Without it, the responses of requests sent with
+   * the `Authorization` or `Cookie` headers are not stored, as they may differ between users.
+   */
+  key?: (opts: { request: Request; params: unknown; query: unknown; data: TContext }) => string | Promise<string>;
+  /** How long the responses are kept in the store, in milliseconds, `sMaxAge` or `maxAge` (60 seconds by default) */
+  ttl?: number;
+};
+
+/**
+ * Create a store keeping the cached responses in memory, for a single server instance
+ */
+export function createMemoryCacheStore(): CacheStore {
+  const entries = createExpiringMap<CachedResponse>();
+
+  return {
+    get: (key) => entries.get(key),
+    set: (key, response, ttl) => entries.set(key, response, ttl),
+  };
+}
+
+// Headers sent with a 304, as they would be with the full response
+const notModifiedHeaders = ['cache-control', 'content-location', 'date', 'etag', 'expires', 'last-modified', 'vary'];
+
+async function computeETag(option: ETagOption, body: Uint8Array) {
+  if (option === false) {
+    return undefined;
+  }
+  if (typeof option === 'function') {
+    const tag = await option(body);
+    return /^(W\/)?".*"$/.test(tag) ? tag : `"${tag}"`;
+  }
+  const tag = `"${(await hash(body)).slice(0, 32)}"`;
+  return option === 'weak' ? `W/${tag}` : tag;
+}
+
+function getCacheControl<TContext>(options: CacheOptions<TContext>) {
+  const directives = [options.public ? 'public' : 'private'];
+  if (options.maxAge === undefined && options.sMaxAge === undefined) {
+    // Without a lifetime, caches must revalidate the response with its ETag before using it
+    directives.push('no-cache');
+  }
+  if (options.maxAge !== undefined) {
+    directives.push(`max-age=${options.maxAge}`);
+  }
+  if (options.sMaxAge !== undefined) {
+    directives.push(`s-maxage=${options.sMaxAge}`);
+  }
+  if (options.staleWhileRevalidate !== undefined) {
+    directives.push(`stale-while-revalidate=${options.staleWhileRevalidate}`);
+  }
+  return directives.join(', ');
+}
+
+/**
+ * Add the Cache-Control, Vary, ETag and Last-Modified headers to a successful response, keeping the ones it already has
+ */
+async function addCacheHeaders<TContext>(options: CacheOptions<TContext>, response: Response): Promise<Response> {
+  // The body is read as bytes, decoding binary bodies as text would corrupt them
+  const body = new Uint8Array(await response.clone().arrayBuffer());
+  const headers = new Headers(response.headers);
+
+  if (!headers.has('cache-control')) {
+    headers.set('cache-control', getCacheControl(options));
+  }
+
+  if (options.vary?.length) {
+    const vary = headers.get('vary');
+    headers.set('vary', [vary, ...options.vary].filter(Boolean).join(', '));
+  }
+
+  if (!headers.has('etag')) {
+    const etag = await computeETag(options.etag ?? 'weak', body);
+    if (etag) {
+      headers.set('etag', etag);
+    }
+  }
+
+  if (!headers.has('last-modified') && options.lastModified) {
+    let data: unknown = new TextDecoder().decode(body);
+    try {
+      data = JSON.parse(data as string);
+    } catch {
+      // The body isn't JSON, it is given as text
+    }
+    const lastModified = options.lastModified(data);
+    if (lastModified !== undefined) {
+      headers.set('last-modified', new Date(lastModified).toUTCString());
+    }
+  }
+
+  return new Response(body, { status: response.status, statusText: response.statusText, headers });
+}
+
+function matchesETag(ifNoneMatch: string, etag: string) {
+  // If-None-Match uses the weak comparison: `W/"a"` matches `"a"`
+  const normalize = (tag: string) => tag.trim().replace(/^W\//, '');
+  return ifNoneMatch.split(',').some((tag) => tag.trim() === '*' || normalize(tag) === normalize(etag));
+}
+
+function isNotModified(request: Request, response: Response) {
+  const etag = response.headers.get('etag');
+  const ifNoneMatch = request.headers.get('if-none-match');
+  if (ifNoneMatch) {
+    return !!etag && matchesETag(ifNoneMatch, etag);
+  }
+
+  // If-Modified-Since is ignored when If-None-Match is sent
+  const lastModified = Date.parse(response.headers.get('last-modified') ?? '');
+  const ifModifiedSince = Date.parse(request.headers.get('if-modified-since') ?? '');
+  return !Number.isNaN(lastModified) && !Number.isNaN(ifModifiedSince) && lastModified <= ifModifiedSince;
+}
+
+function notModified(response: Response) {
+  const headers = new Headers();
+  for (const name of notModifiedHeaders) {
+    const value = response.headers.get(name);
+    if (value !== null) {
+      headers.set(name, value);
+    }
+  }
+  return new Response(null, { status: 304, headers });
+}
+
+/**
+ * Add the caching headers to the response of a GET request, answering conditional requests with a 304
+ * and serving the responses stored in the server-side cache without running the handler
+ * @param options - The cache options of the route
+ * @param request - The request, holding the conditional headers
+ * @param input - The validated params and query of the request, keying the server-side cache with the path,
+ * and the context data of the middlewares, given to the scope of the key
+ * @param run - Run the handler
+ * @returns The response of the handler or of the cache, or a 304 when the client already has it
+ */
+export async function handleCachedRequest<TContext>(
+  options: CacheOptions<TContext>,
+  request: Request,
+  input: { params: unknown; query: unknown; data: TContext },
+  run: () => Promise<Response>,
+): Promise<Response> {
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    return run();
+  }
+
+  const { store } = options;
+  const isCredentialed = request.headers.has('authorization') || request.headers.has('cookie');
+  let key: string | undefined;
+  // The responses of credentialed requests are only stored when scoped, so users never get each other's responses
+  if (store && (options.key || !isCredentialed)) {
+    key = JSON.stringify([
+      new URL(request.url).pathname,
+      input.params,
+      input.query,
+      (options.vary ?? []).map((name) => request.headers.get(name)),
+      options.key ? await options.key({ request, ...input }) : null,
+    ]);
+  }
+
+  const cached = key ? await store?.get(key) : undefined;
+  let response: Response;
+  if (cached) {
+    response = new Response(decodeBase64(cached.body), { status: cached.status, headers: cached.headers });
+  } else {
+    response = await run();
+
+    // Only the full successful responses are cached, streams never end up in a cache
+    if (response.status !== 200 || isStreamResponse(response)) {
+      return response;
+    }
+
+    response = await addCacheHeaders(options, response);
+    const cacheControl = response.headers.get('cache-control') ?? '';
+    if (store && key && !/\bno-store\b/.test(cacheControl)) {
+      const ttl = options.ttl ?? (options.sMaxAge ?? options.maxAge ?? 60) * 1000;
+      await store.set(
+        key,
+        {
+          status: response.status,
+          headers: [...response.headers.entries()],
+          body: encodeBase64(new Uint8Array(await response.clone().arrayBuffer())),
+        },
+        ttl,
+      );
+    }
+  }
+
+  return isNotModified(request, response) ? notModified(response) : response;
+}
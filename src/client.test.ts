@@ -0,0 +1,113 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { z } from 'zod';
+
+import { RouteClientError, RouteValidationError, createRouteClient, createZodRoute } from '.';
+import { OriginalRouteHandler } from './types';
+
+const getUser = createZodRoute()
+  .params(z.object({ id: z.string().uuid() }))
+  .query(z.object({ fields: z.string().optional() }))
+  .handler((request, context) => {
+    return { id: context.params.id, fields: context.query.fields ?? null };
+  });
+
+const createUser = createZodRoute()
+  .body(z.object({ name: z.string().min(1) }))
+  .handler((request, context) => {
+    return { name: context.body.name, contentType: request.headers.get('content-type') };
+  });
+
+const uploadAvatar = createZodRoute()
+  .coerce({ body: true })
+  .body(z.object({ avatar: z.instanceof(Blob), crop: z.object({ x: z.number(), y: z.number() }).optional() }))
+  .handler(async (request, context) => {
+    return { size: context.body.avatar.size, crop: context.body.crop };
+  });
+
+const failing = createZodRoute().handler(() => {
+  throw new Error('Boom');
+});
+
+const routes = {
+  'GET /users/[id]': getUser,
+  'POST /users': createUser,
+  'POST /users/avatar': uploadAvatar,
+  'GET /failing': failing,
+};
+
+/**
+ * Fetch implementation calling the route handlers directly
+ */
+const routesFetch = async (request: Request) => {
+  const { pathname } = new URL(request.url);
+
+  for (const [key, handler] of Object.entries(routes) as [string, OriginalRouteHandler][]) {
+    const [method, path] = key.split(' ') as [string, string];
+    const pattern = new RegExp(`^${path.replace(/\[(\w+)\]/g, '(?<$1>[^/]+)')}$`);
+    const match = pathname.match(pattern);
+    if (method === request.method && match) {
+      return handler(request, { params: Promise.resolve({ ...match.groups }) });
+    }
+  }
+
+  return new Response(null, { status: 404 });
+};
+
+const client = createRouteClient<typeof routes>({ baseUrl: 'http://localhost', fetch: routesFetch });
+
+describe('createRouteClient', () => {
+  it('should substitute path params and serialize the query', async () => {
+    const user = await client.request('GET /users/[id]', {
+      params: { id: '550e8400-e29b-41d4-a716-446655440000' },
+      query: { fields: 'name' },
+    });
+
+    expectTypeOf(user).toEqualTypeOf<{ id: string; fields: string | null }>();
+    expect(user).toEqual({ id: '550e8400-e29b-41d4-a716-446655440000', fields: 'name' });
+  });
+
+  it('should serialize the body as JSON', async () => {
+    const result = await client.request('POST /users', { body: { name: 'John' } });
+
+    expect(result).toEqual({ name: 'John', contentType: 'application/json' });
+  });
+
+  it('should serialize the body as FormData when it contains files', async () => {
+    const result = await client.request('POST /users/avatar', { body: { avatar: new Blob(['avatar']) } });
+
+    expect(result).toEqual({ size: 6 });
+  });
+
+  it('should serialize the nested fields of a FormData body with brackets', async () => {
+    const result = await client.request('POST /users/avatar', {
+      body: { avatar: new Blob(['avatar']), crop: { x: 10, y: 20 } },
+    });
+
+    expect(result).toEqual({ size: 6, crop: { x: 10, y: 20 } });
+  });
+
+  it('should throw a RouteValidationError for invalid input', async () => {
+    const error = await client
+      .request('GET /users/[id]', { params: { id: 'invalid-uuid' } })
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(RouteValidationError);
+    expect((error as RouteValidationError).locations).toEqual(['params']);
+  });
+
+  it('should throw a RouteClientError for other error statuses', async () => {
+    const error = await client.request('GET /failing').catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(RouteClientError);
+    expect((error as RouteClientError).status).toBe(500);
+    expect((error as RouteClientError).message).toBe('Internal server error');
+  });
+
+  it('should type the input of each route', () => {
+    expectTypeOf(client.request<'POST /users'>)
+      .parameter(1)
+      .toMatchTypeOf<{ body: { name: string } }>();
+    // @ts-expect-error - the params are required
+    void client.request('GET /users/[id]', {}).catch(() => undefined);
+  });
+});
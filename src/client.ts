@@ -0,0 +1,262 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Schema, input } from 'zod';
+
+import { RouteValidationError, isRouteValidationProblem } from './errors';
+import { OriginalRouteHandler, RouteHandlerBuilderConfig, RouteSuccessBody } from './types';
+
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+/**
+ * Resolve the input of a section of the request, optional when the schema accepts an empty object
+ * and loosely typed when the route doesn't define a schema for it
+ */
+type SectionInput<TKey extends string, TSchema extends Schema, TFallback> =
+  IsAny<input<TSchema>> extends true
+    ? { [K in TKey]?: TFallback }
+    : // eslint-disable-next-line @typescript-eslint/ban-types
+      {} extends input<TSchema>
+      ? { [K in TKey]?: input<TSchema> }
+      : { [K in TKey]: input<TSchema> };
+
+/**
+ * Type helper to extract the input of a route handler: its params, query, body and headers
+ */
+export type RouteInput<THandler> =
+  THandler extends OriginalRouteHandler<any, infer TConfig extends RouteHandlerBuilderConfig>
+    ? SectionInput<'params', TConfig['paramsSchema'], Record<string, string | string[]>> &
+        SectionInput<'query', TConfig['querySchema'], Record<string, unknown>> &
+        SectionInput<'body', TConfig['bodySchema'], unknown> &
+        SectionInput<'headers', TConfig['headersSchema'], Record<string, string>> & {
+          init?: Omit<RequestInit, 'body' | 'method'>;
+        }
+    : never;
+
+type RouteKey<TRoutes> = keyof TRoutes & string;
+
+type RouteInputArgs<THandler> =
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  {} extends RouteInput<THandler> ? [input?: RouteInput<THandler>] : [input: RouteInput<THandler>];
+
+/**
+ * Error thrown by the route client when the server responds with an error status
+ */
+export class RouteClientError extends Error {
+  readonly name = 'RouteClientError';
+  readonly status: number;
+  readonly body: unknown;
+  readonly response: Response;
+
+  constructor(response: Response, body: unknown) {
+    const message =
+      typeof body === 'object' && body !== null && 'message' in body && typeof body.message === 'string'
+        ? body.message
+        : `Request failed with status ${response.status}`;
+    super(message);
+    this.status = response.status;
+    this.body = body;
+    this.response = response;
+  }
+}
+
+export type RouteClient<TRoutes extends Record<string, OriginalRouteHandler>> = {
+  /**
+   * Call a route with its typed input
+   * @param route - The route key, e.g. `GET /users/[id]`
+   * @param input - The params, query, body and headers of the request
+   * @returns The parsed response body, typed with the bodies of the successful statuses when the route uses `context.respond`
+   * @throws RouteValidationError when the server rejects the input
+   * @throws RouteClientError when the server responds with another error status
+   */
+  request<TKey extends RouteKey<TRoutes>>(
+    route: TKey,
+    ...args: RouteInputArgs<TRoutes[TKey]>
+  ): Promise<RouteSuccessBody<TRoutes[TKey]>>;
+};
+
+/**
+ * Replace the dynamic segments of a path (`[id]`, `[...slug]`, `[[...slug]]` or `{id}`) with the params
+ */
+function buildPath(path: string, params: Record<string, unknown> = {}) {
+  return path.replace(/\[\[\.\.\.(\w+)\]\]|\[\.\.\.(\w+)\]|\[(\w+)\]|\{(\w+)\}/g, (segment, ...names: unknown[]) => {
+    const name = names.slice(0, 4).find((value): value is string => typeof value === 'string') as string;
+    const value = params[name];
+
+    if (value === undefined) {
+      if (segment.startsWith('[[')) {
+        return '';
+      }
+      throw new Error(`Missing param "${name}" for path "${path}"`);
+    }
+
+    return Array.isArray(value)
+      ? value.map((item) => encodeURIComponent(String(item))).join('/')
+      : encodeURIComponent(String(value));
+  });
+}
+
+function toSearchParamValue(value: unknown) {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+/**
+ * Serialize a value into form entries, repeating keys for arrays and using brackets for nested objects
+ * (`filter[status]=open`), as the server parses them
+ */
+function appendEntries(append: (key: string, value: string | Blob) => void, value: unknown, key: string) {
+  if (value === undefined || value === null) {
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((item) => appendEntries(append, item, key));
+    return;
+  }
+
+  if (value instanceof Blob) {
+    append(key, value);
+    return;
+  }
+
+  if (typeof value === 'object' && !(value instanceof Date)) {
+    Object.entries(value).forEach(([childKey, childValue]) => appendEntries(append, childValue, `${key}[${childKey}]`));
+    return;
+  }
+
+  append(key, toSearchParamValue(value));
+}
+
+/**
+ * Serialize the query, repeating keys for arrays and using brackets for nested objects (`filter[status]=open`)
+ */
+export function appendSearchParams(searchParams: URLSearchParams, value: unknown, key: string) {
+  appendEntries((entryKey, entryValue) => searchParams.append(entryKey, entryValue as string), value, key);
+}
+
+/**
+ * Serialize the fields of an object into FormData, with the same bracket notation as the query
+ */
+export function toFormData(value: Record<string, unknown>): FormData {
+  const formData = new FormData();
+  Object.entries(value).forEach(([key, field]) =>
+    appendEntries((entryKey, entryValue) => formData.append(entryKey, entryValue), field, key),
+  );
+  return formData;
+}
+
+function hasBlob(value: unknown): boolean {
+  if (value instanceof Blob) {
+    return true;
+  }
+  if (Array.isArray(value)) {
+    return value.some(hasBlob);
+  }
+  if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
+    return Object.values(value).some(hasBlob);
+  }
+  return false;
+}
+
+/**
+ * Serialize the body as FormData when it contains files, as JSON otherwise
+ */
+export function serializeBody(body: unknown): { body: NonNullable<RequestInit['body']>; contentType?: string } {
+  if (body instanceof FormData || body instanceof URLSearchParams || body instanceof Blob) {
+    return { body };
+  }
+
+  if (typeof body === 'object' && body !== null && hasBlob(body)) {
+    return { body: toFormData(body as Record<string, unknown>) };
+  }
+
+  return { body: JSON.stringify(body), contentType: 'application/json' };
+}
+
+export async function parseResponseBody(response: Response): Promise<unknown> {
+  if (response.status === 204 || response.status === 304) {
+    return undefined;
+  }
+
+  // Error responses are not always sent with a JSON content type, so the body is parsed as JSON when possible
+  const text = await response.text();
+  try {
+    return text ? JSON.parse(text) : undefined;
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Create a type-safe client for route handlers created with `createZodRoute`
+ * @param options - The base URL of the API, a custom `fetch` implementation and default request options
+ * @returns A client whose input and response types are inferred from the route handlers
+ *
+ * @example
+ * ```ts
+ * // Only the types of the routes are imported on the client
+ * const client = createRouteClient<typeof routes>({ baseUrl: '/api' });
+ * const user = await client.request('GET /users/[id]', { params: { id: '1' } });
+ * ```
+ */
+export function createRouteClient<TRoutes extends Record<string, OriginalRouteHandler>>(options: {
+  baseUrl: string;
+  fetch?: (input: Request) => Promise<Response>;
+  init?: Omit<RequestInit, 'body' | 'method'>;
+}): RouteClient<TRoutes> {
+  const fetchFn = options.fetch ?? ((request: Request) => fetch(request));
+
+  return {
+    async request(route, ...args) {
+      const [method, path] = route.trim().split(/\s+/);
+      if (!method || !path) {
+        throw new Error(`Invalid route "${route}", expected "<METHOD> <path>" such as "GET /users/[id]"`);
+      }
+
+      const {
+        params,
+        query,
+        body,
+        headers: inputHeaders,
+        init,
+      } = (args[0] ?? {}) as {
+        params?: Record<string, unknown>;
+        query?: Record<string, unknown>;
+        body?: unknown;
+        headers?: Record<string, string>;
+        init?: Omit<RequestInit, 'body' | 'method'>;
+      };
+
+      const searchParams = new URLSearchParams();
+      Object.entries(query ?? {}).forEach(([key, value]) => appendSearchParams(searchParams, value, key));
+      const search = searchParams.toString();
+      // The base URL can be relative in the browser, so the URL is built as a string
+      const url = `${options.baseUrl.replace(/\/$/, '')}${buildPath(path, params)}${search ? `?${search}` : ''}`;
+
+      const headers = new Headers(options.init?.headers);
+      new Headers(init?.headers).forEach((value, key) => headers.set(key, value));
+      Object.entries(inputHeaders ?? {}).forEach(([key, value]) => headers.set(key, value));
+
+      let requestBody: RequestInit['body'];
+      if (body !== undefined && method !== 'GET' && method !== 'HEAD') {
+        const serialized = serializeBody(body);
+        requestBody = serialized.body;
+        if (serialized.contentType && !headers.has('content-type')) {
+          headers.set('content-type', serialized.contentType);
+        }
+      }
+
+      const response = await fetchFn(
+        new Request(url, { ...options.init, ...init, method, headers, body: requestBody }),
+      );
+      const responseBody = await parseResponseBody(response);
+
+      if (!response.ok) {
+        if (response.status === 400 && isRouteValidationProblem(responseBody)) {
+          throw new RouteValidationError(responseBody.errors);
+        }
+        throw new RouteClientError(response, responseBody);
+      }
+
+      return responseBody as RouteSuccessBody<TRoutes[typeof route]>;
+    },
+  };
+}
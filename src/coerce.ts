@@ -0,0 +1,146 @@
+import { ZodFirstPartyTypeKind, ZodTypeAny } from 'zod';
+
+import { RouteValidationLocation } from './errors';
+import { getChildSchema, getSchemaKind, getSchemaOptions, isArraySchema } from './utils';
+
+/**
+ * Enable the coercion of string inputs for every part of the request, or only for some of them
+ */
+export type CoerceOptions = boolean | Partial<Record<RouteValidationLocation, boolean>>;
+
+const locations: RouteValidationLocation[] = ['params', 'query', 'body', 'headers', 'cookies'];
+
+/**
+ * Resolve the parts of the request to coerce, merging the options over the current ones
+ */
+export function resolveCoerceOptions(
+  options: CoerceOptions | undefined,
+  current: Partial<Record<RouteValidationLocation, boolean>> = {},
+): Partial<Record<RouteValidationLocation, boolean>> {
+  if (options === undefined) {
+    return current;
+  }
+  if (typeof options === 'boolean') {
+    return Object.fromEntries(locations.map((location) => [location, options]));
+  }
+  return { ...current, ...options };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Check if a schema accepts the string as-is, in which case it is not coerced
+ */
+function acceptsString(schema: ZodTypeAny, value: string) {
+  const def = schema._def as { values?: unknown; value?: unknown };
+
+  switch (getSchemaKind(schema)) {
+    case ZodFirstPartyTypeKind.ZodString:
+    case ZodFirstPartyTypeKind.ZodAny:
+    case ZodFirstPartyTypeKind.ZodUnknown:
+      return true;
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return (def.values as string[]).includes(value);
+    case ZodFirstPartyTypeKind.ZodNativeEnum:
+      return Object.values(def.values as Record<string, unknown>).includes(value);
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return def.value === value;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Convert a string to the type expected by a schema, or return undefined when it can't be converted
+ */
+function coerceString(schema: ZodTypeAny, value: string): { value: unknown } | undefined {
+  const trimmed = value.trim();
+
+  switch (getSchemaKind(schema)) {
+    case ZodFirstPartyTypeKind.ZodNumber: {
+      const number = Number(trimmed);
+      return trimmed !== '' && !Number.isNaN(number) ? { value: number } : undefined;
+    }
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      if (trimmed === 'true' || trimmed === '1') {
+        return { value: true };
+      }
+      if (trimmed === 'false' || trimmed === '0') {
+        return { value: false };
+      }
+      return undefined;
+    case ZodFirstPartyTypeKind.ZodDate: {
+      const date = new Date(trimmed);
+      return trimmed !== '' && !Number.isNaN(date.getTime()) ? { value: date } : undefined;
+    }
+    case ZodFirstPartyTypeKind.ZodBigInt:
+      try {
+        return trimmed !== '' ? { value: BigInt(trimmed) } : undefined;
+      } catch {
+        return undefined;
+      }
+    case ZodFirstPartyTypeKind.ZodLiteral: {
+      const literal = (schema._def as { value: unknown }).value;
+      return String(literal) === trimmed ? { value: literal } : undefined;
+    }
+    case ZodFirstPartyTypeKind.ZodNull:
+      return trimmed === 'null' ? { value: null } : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Convert the string inputs of a value to the types expected by a schema: numbers, booleans, dates, bigints and arrays.
+ * Inputs that can't be converted are left untouched so the schema rejects them.
+ * @param schema - The schema the value is validated against
+ * @param value - The value to coerce
+ * @returns The coerced value
+ */
+export function coerceValue(schema: ZodTypeAny | undefined, value: unknown): unknown {
+  if (!schema) {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return isArraySchema(schema)
+      ? value.map((item, index) => coerceValue(getChildSchema(schema, `${index}`), item))
+      : value;
+  }
+
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [key, coerceValue(getChildSchema(schema, key), child)]),
+    );
+  }
+
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const options = getSchemaOptions(schema);
+  if (options.some((option) => acceptsString(option, value))) {
+    return value;
+  }
+
+  // Empty form fields are treated as missing values for optional fields
+  if (value.trim() === '' && schema.isOptional()) {
+    return undefined;
+  }
+
+  for (const option of options) {
+    const coerced = coerceString(option, value);
+    if (coerced) {
+      return coerced.value;
+    }
+  }
+
+  // A single value is wrapped into an array when the schema expects one
+  if (isArraySchema(schema)) {
+    return [coerceValue(getChildSchema(schema, '0'), value)];
+  }
+
+  return value;
+}
@@ -0,0 +1,157 @@
+import { HttpMethod } from './types';
+import { updateHeaders } from './utils';
+
+/**
+ * The origins allowed to call the route: `*`, a single origin, a list of origins, a pattern or a predicate
+ */
+export type CorsOrigin =
+  | string
+  | string[]
+  | RegExp
+  | ((origin: string, request: Request) => boolean | Promise<boolean>);
+
+export type CorsOptions = {
+  /** The allowed origins, `*` by default */
+  origin?: CorsOrigin;
+  /** The methods allowed in preflight requests, the methods of the route, or `GET, HEAD, POST`, by default */
+  methods?: HttpMethod[];
+  /** The request headers allowed in preflight requests, the requested headers by default */
+  headers?: string[];
+  /** The response headers exposed to the browser */
+  exposedHeaders?: string[];
+  /** Allow cookies and credentials, requires an explicit `origin` other than `*` */
+  credentials?: boolean;
+  /** How long the preflight response can be cached, in seconds */
+  maxAge?: number;
+};
+
+/**
+ * Resolve the CORS options of a route, merging the options over the current ones
+ * @throws Error when credentials are allowed without an explicit origin, as any website could then read the responses
+ * with the cookies of the user
+ */
+export function resolveCorsOptions(options: CorsOptions, current?: CorsOptions): CorsOptions {
+  const resolved = { ...current, ...options };
+  if (resolved.credentials && (resolved.origin === undefined || resolved.origin === '*')) {
+    throw new Error('CORS credentials require an explicit origin, the wildcard origin "*" is not allowed');
+  }
+  return resolved;
+}
+
+/**
+ * Resolve the value of the `Access-Control-Allow-Origin` header, or undefined when the origin is not allowed
+ */
+async function resolveAllowedOrigin(options: CorsOptions, request: Request): Promise<string | undefined> {
+  const origin = request.headers.get('origin');
+  const allowedOrigin = options.origin ?? '*';
+
+  if (allowedOrigin === '*') {
+    return '*';
+  }
+
+  if (!origin) {
+    return undefined;
+  }
+
+  let allowed: boolean;
+  if (typeof allowedOrigin === 'function') {
+    allowed = await allowedOrigin(origin, request);
+  } else if (allowedOrigin instanceof RegExp) {
+    allowed = allowedOrigin.test(origin);
+  } else {
+    allowed = (Array.isArray(allowedOrigin) ? allowedOrigin : [allowedOrigin]).includes(origin);
+  }
+
+  return allowed ? origin : undefined;
+}
+
+async function getCorsHeaders(options: CorsOptions, request: Request): Promise<Headers> {
+  const headers = new Headers();
+  const allowedOrigin = await resolveAllowedOrigin(options, request);
+
+  if (allowedOrigin !== '*') {
+    headers.set('Vary', 'Origin');
+  }
+  if (!allowedOrigin) {
+    return headers;
+  }
+
+  headers.set('Access-Control-Allow-Origin', allowedOrigin);
+  if (options.credentials) {
+    headers.set('Access-Control-Allow-Credentials', 'true');
+  }
+  if (options.exposedHeaders?.length) {
+    headers.set('Access-Control-Expose-Headers', options.exposedHeaders.join(', '));
+  }
+  return headers;
+}
+
+/**
+ * Check if a request is a CORS preflight request
+ */
+export function isPreflightRequest(request: Request): boolean {
+  return (
+    request.method === 'OPTIONS' &&
+    request.headers.has('origin') &&
+    request.headers.has('access-control-request-method')
+  );
+}
+
+// Methods allowed when the methods of the route are unknown, e.g. for a single handler exported as OPTIONS
+const safelistedMethods: HttpMethod[] = ['GET', 'HEAD', 'POST'];
+
+/**
+ * Answer a preflight request
+ * @param options - The CORS options of the route
+ * @param request - The preflight request
+ * @param methods - The methods of the route, used when the options don't list the allowed methods,
+ * the CORS-safelisted methods (`GET`, `HEAD` and `POST`) are allowed without them
+ * @returns An empty 204 response with the CORS headers
+ */
+export async function createPreflightResponse(
+  options: CorsOptions,
+  request: Request,
+  methods?: HttpMethod[],
+): Promise<Response> {
+  const headers = await getCorsHeaders(options, request);
+
+  if (headers.has('Access-Control-Allow-Origin')) {
+    const allowedMethods = options.methods ?? methods ?? safelistedMethods;
+    headers.set('Access-Control-Allow-Methods', allowedMethods.join(', '));
+
+    const allowedHeaders = options.headers?.join(', ') ?? request.headers.get('access-control-request-headers');
+    if (allowedHeaders) {
+      headers.set('Access-Control-Allow-Headers', allowedHeaders);
+    }
+    if (options.maxAge !== undefined) {
+      headers.set('Access-Control-Max-Age', `${options.maxAge}`);
+    }
+  }
+
+  return new Response(null, { status: 204, headers });
+}
+
+/**
+ * Add the CORS headers to a response, copying the response when its headers are immutable
+ * @param options - The CORS options of the route
+ * @param request - The request the response answers
+ * @param response - The response produced by the route
+ * @returns The response with the CORS headers
+ */
+export async function applyCorsHeaders(options: CorsOptions, request: Request, response: Response): Promise<Response> {
+  const corsHeaders = await getCorsHeaders(options, request);
+
+  return updateHeaders(response, (headers) =>
+    corsHeaders.forEach((value, key) => {
+      const vary = headers.get('vary');
+      // Keep the Vary header set by the handler
+      if (key === 'vary' && vary) {
+        if (!vary.split(',').some((name) => name.trim().toLowerCase() === 'origin')) {
+          headers.set('Vary', `${vary}, ${value}`);
+        }
+        return;
+      }
+      headers.set(key, value);
+    }),
+  );
+}
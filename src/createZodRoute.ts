@@ -1,9 +1,41 @@
+// eslint-disable-next-line import/no-named-as-default
+import z from 'zod';
+
+import { BodyLimits, BodyParser } from './bodyParsers';
+import { CoerceOptions, resolveCoerceOptions } from './coerce';
+import { CorsOptions, resolveCorsOptions } from './cors';
+import { RouteHooks } from './hooks';
+import { ArrayParsing } from './parseEntries';
 import { RouteHandlerBuilder } from './routeHandlerBuilder';
-import { HandlerServerErrorFn } from './types';
+import { TimeoutOptions } from './timeout';
+import { FormatValidationErrorFn, HandlerOutputErrorFn, HandlerServerErrorFn, InferMetadata } from './types';
 
-export function createZodRoute(params?: { handleServerError?: HandlerServerErrorFn }) {
-  return new RouteHandlerBuilder({
+export function createZodRoute<TMetadataSchema extends z.Schema | undefined = undefined>(params?: {
+  handleServerError?: HandlerServerErrorFn;
+  handleOutputValidationError?: HandlerOutputErrorFn;
+  formatValidationError?: FormatValidationErrorFn;
+  arrayParsing?: ArrayParsing;
+  coerce?: CoerceOptions;
+  bodyParsers?: Record<string, BodyParser>;
+  limits?: BodyLimits;
+  cors?: CorsOptions;
+  hooks?: RouteHooks;
+  timeout?: number | TimeoutOptions;
+  metadataSchema?: TMetadataSchema;
+}) {
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  return new RouteHandlerBuilder<z.Schema, z.Schema, z.Schema, {}, InferMetadata<TMetadataSchema>>({
     handleServerError: params?.handleServerError,
+    handleOutputValidationError: params?.handleOutputValidationError,
+    formatValidationError: params?.formatValidationError,
+    arrayParsing: params?.arrayParsing,
+    coerceOptions: resolveCoerceOptions(params?.coerce),
+    bodyParsers: params?.bodyParsers,
+    bodyLimits: params?.limits,
+    corsOptions: params?.cors && resolveCorsOptions(params.cors),
+    lifecycleHooks: params?.hooks ? [params.hooks] : [],
+    timeoutOptions: typeof params?.timeout === 'number' ? { ms: params.timeout } : params?.timeout,
+    metadataSchema: params?.metadataSchema,
     contextType: {},
   });
 }
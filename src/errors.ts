@@ -0,0 +1,252 @@
+import { ZodError, ZodIssue } from 'zod';
+
+/**
+ * Part of the request a validation issue comes from
+ */
+export type RouteValidationLocation = 'params' | 'query' | 'body' | 'headers' | 'cookies';
+
+/**
+ * Zod issue tagged with the part of the request it comes from
+ */
+export type RouteValidationIssue = ZodIssue & { location: RouteValidationLocation };
+
+/**
+ * Body of the default validation error response, following RFC 9457 (problem details)
+ */
+export type RouteValidationProblem = {
+  type: 'about:blank';
+  title: 'Bad Request';
+  status: 400;
+  detail: string;
+  message: string;
+  errors: RouteValidationIssue[];
+};
+
+function getLocations(issues: RouteValidationIssue[]): RouteValidationLocation[] {
+  return [...new Set(issues.map((issue) => issue.location))];
+}
+
+/**
+ * Tag the issues of a zod error with the part of the request they come from
+ */
+export function toValidationIssues(error: ZodError, location: RouteValidationLocation): RouteValidationIssue[] {
+  return error.issues.map((issue) => ({ ...issue, location }));
+}
+
+/**
+ * Error holding the validation issues of every part of the request
+ */
+export class RouteValidationError extends Error {
+  readonly name = 'RouteValidationError';
+  readonly status = 400;
+  readonly issues: RouteValidationIssue[];
+
+  constructor(issues: RouteValidationIssue[]) {
+    super(`Invalid ${getLocations(issues).join(', ')}`);
+    this.issues = issues;
+  }
+
+  /**
+   * The parts of the request that failed validation
+   */
+  get locations(): RouteValidationLocation[] {
+    return getLocations(this.issues);
+  }
+
+  toJSON(): RouteValidationProblem {
+    return {
+      type: 'about:blank',
+      title: 'Bad Request',
+      status: 400,
+      detail: this.message,
+      message: this.message,
+      errors: this.issues,
+    };
+  }
+}
+
+/**
+ * Check if a value is the body of a default validation error response
+ * @param value - The parsed JSON body of a response
+ */
+export function isRouteValidationProblem(value: unknown): value is RouteValidationProblem {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as RouteValidationProblem).status === 400 &&
+    Array.isArray((value as RouteValidationProblem).errors)
+  );
+}
+
+const statusTitles: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  202: 'Accepted',
+  204: 'No Content',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  409: 'Conflict',
+  413: 'Content Too Large',
+  415: 'Unsupported Media Type',
+  422: 'Unprocessable Content',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  503: 'Service Unavailable',
+  504: 'Gateway Timeout',
+};
+
+/**
+ * Get the reason phrase of an HTTP status, e.g. `Not Found` for 404
+ */
+export function getStatusTitle(status: number): string {
+  return statusTitles[status] ?? `Status ${status}`;
+}
+
+export type HttpErrorOptions = {
+  /** Machine-readable error code, derived from the status by default, e.g. `NOT_FOUND` */
+  code?: string;
+  /** Additional details sent in the response body */
+  details?: unknown;
+  /** Headers added to the response, e.g. `Retry-After` */
+  headers?: Record<string, string>;
+  cause?: unknown;
+};
+
+/**
+ * Body of the response sent for an HttpError, following RFC 9457 (problem details)
+ */
+export type HttpErrorProblem = {
+  type: 'about:blank';
+  title: string;
+  status: number;
+  code: string;
+  detail: string;
+  message: string;
+  details?: unknown;
+};
+
+/**
+ * Error mapped to a response with its status, code and message when thrown from a handler or a middleware.
+ * The message is sent to the client, so it must not leak internal details.
+ */
+export class HttpError extends Error {
+  readonly name: string = 'HttpError';
+  readonly status: number;
+  readonly code: string;
+  readonly details?: unknown;
+  readonly headers?: Record<string, string>;
+  readonly cause?: unknown;
+
+  constructor(status: number, message = statusTitles[status] ?? 'Error', options: HttpErrorOptions = {}) {
+    super(message);
+    this.status = status;
+    this.cause = options.cause;
+    this.code = options.code ?? (statusTitles[status] ?? 'Error').toUpperCase().replace(/\s+/g, '_');
+    this.details = options.details;
+    this.headers = options.headers;
+  }
+
+  toJSON(): HttpErrorProblem {
+    return {
+      type: 'about:blank',
+      title: statusTitles[this.status] ?? 'Error',
+      status: this.status,
+      code: this.code,
+      detail: this.message,
+      message: this.message,
+      ...(this.details !== undefined && { details: this.details }),
+    };
+  }
+
+  /**
+   * Create the response sent to the client
+   */
+  toResponse(): Response {
+    return new Response(JSON.stringify(this), {
+      status: this.status,
+      headers: { ...this.headers, 'Content-Type': 'application/problem+json' },
+    });
+  }
+}
+
+export class BadRequestError extends HttpError {
+  readonly name: string = 'BadRequestError';
+
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(400, message, options);
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  readonly name: string = 'UnauthorizedError';
+
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(401, message, options);
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  readonly name: string = 'ForbiddenError';
+
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(403, message, options);
+  }
+}
+
+export class NotFoundError extends HttpError {
+  readonly name: string = 'NotFoundError';
+
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(404, message, options);
+  }
+}
+
+export class ConflictError extends HttpError {
+  readonly name: string = 'ConflictError';
+
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(409, message, options);
+  }
+}
+
+export class UnprocessableEntityError extends HttpError {
+  readonly name: string = 'UnprocessableEntityError';
+
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(422, message, options);
+  }
+}
+
+export class TooManyRequestsError extends HttpError {
+  readonly name: string = 'TooManyRequestsError';
+
+  constructor(message?: string, options?: HttpErrorOptions & { retryAfter?: number }) {
+    const { retryAfter, ...httpErrorOptions } = options ?? {};
+    super(429, message, {
+      ...httpErrorOptions,
+      headers: { ...(retryAfter !== undefined && { 'Retry-After': `${retryAfter}` }), ...httpErrorOptions.headers },
+    });
+  }
+}
+
+export class GatewayTimeoutError extends HttpError {
+  readonly name: string = 'GatewayTimeoutError';
+
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(504, message, options);
+  }
+}
+
+/**
+ * Error thrown when the request body can't be read or parsed
+ */
+export class RouteBodyError extends HttpError {
+  readonly name: string = 'RouteBodyError';
+
+  constructor(status: 400 | 413 | 415, message: string) {
+    super(status, message);
+  }
+}
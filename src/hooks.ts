@@ -0,0 +1,66 @@
+import { RouteValidationIssue, RouteValidationLocation } from './errors';
+
+/**
+ * Time spent in each phase of the request, in milliseconds
+ */
+export type RouteTiming = {
+  /** Reading the query, cookies and body */
+  parse: number;
+  /** Validating the parts of the request against the schemas */
+  validate: number;
+  /** Running the middlewares, excluding the handler */
+  middleware: number;
+  /** Running the handler and validating its output */
+  handler: number;
+  total: number;
+};
+
+/**
+ * State of the request passed to every hook. The sections hold the validated values once validation succeeded.
+ */
+export type RouteHookContext = {
+  request: Request;
+  params: unknown;
+  query: unknown;
+  body: unknown;
+  headers: unknown;
+  cookies: unknown;
+  metadata: unknown;
+  timing: RouteTiming;
+};
+
+/**
+ * Hooks called during the lifecycle of a request, to plug in logging, metrics or tracing.
+ * Hooks are awaited, and errors thrown by hooks are ignored so they never change the response.
+ */
+export type RouteHooks = {
+  /** Called when the request is received, before the middlewares run */
+  onRequest?: (request: Request, context: RouteHookContext) => unknown;
+  /** Called once per part of the request that failed validation */
+  onValidationError?: (
+    issues: RouteValidationIssue[],
+    section: RouteValidationLocation,
+    context: RouteHookContext,
+  ) => unknown;
+  /** Called with the response of the route, unless an error was thrown */
+  onSuccess?: (response: Response, timing: RouteTiming, context: RouteHookContext) => unknown;
+  /** Called when the handler or a middleware throws an error, validation errors excluded */
+  onError?: (error: unknown, request: Request, context: RouteHookContext) => unknown;
+};
+
+/**
+ * Call a hook of every set of hooks, in the order they were added
+ */
+export async function callHooks<TName extends keyof RouteHooks>(
+  hooks: RouteHooks[],
+  name: TName,
+  ...args: Parameters<NonNullable<RouteHooks[TName]>>
+): Promise<void> {
+  for (const hook of hooks) {
+    try {
+      await (hook[name] as ((...hookArgs: typeof args) => unknown) | undefined)?.(...args);
+    } catch {
+      // Errors thrown by hooks are ignored, observability must not break the route
+    }
+  }
+}
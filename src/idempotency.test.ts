@@ -0,0 +1,149 @@
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+
+import { createZodRoute } from '.';
+
+const params = { params: Promise.resolve({}) };
+
+const post = (body: unknown, key?: string, headers: Record<string, string> = {}) =>
+  new Request('http://localhost/orders', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(key && { 'Idempotency-Key': key }), ...headers },
+    body: JSON.stringify(body),
+  });
+
+const createRoute = (handler = vi.fn(async () => ({ id: 'order-1' }))) => ({
+  handler,
+  POST: createZodRoute()
+    .body(z.object({ amount: z.number() }))
+    .idempotent()
+    .handler(handler),
+});
+
+describe('idempotency', () => {
+  it('should replay the stored response for a retry with the same key and body', async () => {
+    const { handler, POST } = createRoute();
+
+    const first = await POST(post({ amount: 10 }, 'key-1'), params);
+    const retry = await POST(post({ amount: 10 }, 'key-1'), params);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(retry.status).toBe(200);
+    expect(retry.headers.get('Content-Type')).toBe('application/json');
+    expect(retry.headers.get('Idempotent-Replayed')).toBe('true');
+    expect(await retry.json()).toEqual(await first.json());
+  });
+
+  it('should replay binary responses as is', async () => {
+    const bytes = [0xff, 0xfe, 0, 0x80, 0x41];
+    const POST = createZodRoute()
+      .idempotent()
+      .handler(() => new Response(new Uint8Array(bytes), { headers: { 'Content-Type': 'application/octet-stream' } }));
+
+    await POST(post({ amount: 10 }, 'key-1'), params);
+    const retry = await POST(post({ amount: 10 }, 'key-1'), params);
+
+    expect(retry.headers.get('Idempotent-Replayed')).toBe('true');
+    expect([...new Uint8Array(await retry.arrayBuffer())]).toEqual(bytes);
+  });
+
+  it('should reject a key reused with a different body with a 422', async () => {
+    const { POST } = createRoute();
+
+    await POST(post({ amount: 10 }, 'key-1'), params);
+    const response = await POST(post({ amount: 20 }, 'key-1'), params);
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toMatchObject({ code: 'UNPROCESSABLE_CONTENT' });
+  });
+
+  it('should reject a key reused with a different binary body with a 422', async () => {
+    const POST = createZodRoute()
+      .idempotent()
+      .handler(() => ({ ok: true }));
+    const upload = (bytes: number[]) =>
+      POST(
+        new Request('http://localhost/files', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/octet-stream', 'Idempotency-Key': 'key-1' },
+          body: new Uint8Array(bytes),
+        }),
+        params,
+      );
+
+    expect((await upload([1, 2, 3])).status).toBe(200);
+    expect((await upload([1, 2, 3])).headers.get('Idempotent-Replayed')).toBe('true');
+    expect((await upload([9, 9, 9])).status).toBe(422);
+  });
+
+  it('should reject a duplicate while the first request is in flight with a 409', async () => {
+    let resolve: () => void = () => {};
+    const { POST } = createRoute(
+      vi.fn(async () => {
+        await new Promise<void>((done) => {
+          resolve = done;
+        });
+        return { id: 'order-1' };
+      }),
+    );
+
+    const first = POST(post({ amount: 10 }, 'key-1'), params);
+    await new Promise((done) => setTimeout(done, 0));
+    const duplicate = await POST(post({ amount: 10 }, 'key-1'), params);
+    resolve();
+
+    expect(duplicate.status).toBe(409);
+    expect((await first).status).toBe(200);
+  });
+
+  it('should run the handler again after a server error, and without a key', async () => {
+    const handler = vi.fn(async () => ({ id: 'order-1' }));
+    handler.mockRejectedValueOnce(new Error('Database unavailable'));
+    const { POST } = createRoute(handler);
+
+    expect((await POST(post({ amount: 10 }, 'key-1'), params)).status).toBe(500);
+    expect((await POST(post({ amount: 10 }, 'key-1'), params)).status).toBe(200);
+
+    await POST(post({ amount: 10 }), params);
+    await POST(post({ amount: 10 }), params);
+    expect(handler).toHaveBeenCalledTimes(4);
+  });
+
+  it('should not share the keys between callers', async () => {
+    const handler = vi.fn(async () => ({ id: 'order-1' }));
+    const { POST } = createRoute(handler);
+
+    await POST(post({ amount: 10 }, 'key-1', { Authorization: 'Bearer alice' }), params);
+    const other = await POST(post({ amount: 10 }, 'key-1', { Authorization: 'Bearer bob' }), params);
+    const retry = await POST(post({ amount: 10 }, 'key-1', { Authorization: 'Bearer alice' }), params);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(other.headers.has('Idempotent-Replayed')).toBe(false);
+    expect(retry.headers.get('Idempotent-Replayed')).toBe('true');
+  });
+
+  it('should scope the keys with the context data', async () => {
+    const handler = vi.fn(async () => ({ id: 'order-1' }));
+    const POST = createZodRoute()
+      .use(async ({ request }) => ({ userId: request.headers.get('x-user-id') ?? 'anonymous' }))
+      .idempotent({ scope: ({ data }) => data.userId })
+      .handler(handler);
+
+    await POST(post({}, 'key-1', { 'x-user-id': 'alice' }), params);
+    await POST(post({}, 'key-1', { 'x-user-id': 'bob' }), params);
+    await POST(post({}, 'key-1', { 'x-user-id': 'bob' }), params);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should require the key when configured', async () => {
+    const POST = createZodRoute()
+      .idempotent({ required: true })
+      .handler(() => ({ ok: true }));
+
+    const response = await POST(post({}), params);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ message: 'Missing Idempotency-Key header' });
+  });
+});
@@ -0,0 +1,179 @@
+import { BadRequestError, ConflictError, UnprocessableEntityError } from './errors';
+import { createExpiringMap, decodeBase64, encodeBase64, hash, isStreamResponse } from './utils';
+
+/**
+ * Response stored for an idempotency key, replayed for the retries of the request
+ */
+export type IdempotencyResponse = {
+  status: number;
+  headers: [string, string][];
+  /** The body encoded in base64, so binary bodies are replayed as is */
+  body: string;
+};
+
+export type IdempotencyRecord = {
+  /** Hash of the method, path, query and body of the request that first used the key */
+  fingerprint: string;
+  /** The response of the request, undefined while the request is in flight */
+  response?: IdempotencyResponse;
+};
+
+/**
+ * Store of the idempotency records, implement it to share them between instances (e.g. Redis)
+ */
+export type IdempotencyStore = {
+  get(key: string): Promise<IdempotencyRecord | undefined> | IdempotencyRecord | undefined;
+  /** Store the record only when the key is not stored yet, and return whether it was stored (e.g. `SET NX`) */
+  create(key: string, record: IdempotencyRecord, ttl: number): Promise<boolean> | boolean;
+  set(key: string, record: IdempotencyRecord, ttl: number): Promise<void> | void;
+  delete(key: string): Promise<void> | void;
+};
+
+export type IdempotencyOptions<TContext = unknown> = {
+  /**
+   * Scope of the keys, so clients can't replay each other's responses by reusing a key, e.g. the id of the user.
+   * The `Authorization` header, or the `Cookie` header without it, by default.
+   */
+  scope?: (opts: { request: Request; data: TContext }) => string | Promise<string>;
+  /** Store of the records, an in-memory store by default */
+  store?: IdempotencyStore;
+  /** How long the responses are kept, in milliseconds, 24 hours by default */
+  ttl?: number;
+  /** Name of the header holding the key, `Idempotency-Key` by default */
+  header?: string;
+  /** Reject the requests without a key with a 400, they run without idempotency otherwise */
+  required?: boolean;
+};
+
+/**
+ * Create a store keeping the idempotency records in memory, for a single server instance
+ */
+export function createMemoryIdempotencyStore(): IdempotencyStore {
+  const entries = createExpiringMap<IdempotencyRecord>();
+
+  return {
+    get: (key) => entries.get(key),
+    create(key, record, ttl) {
+      if (entries.get(key)) {
+        return false;
+      }
+      entries.set(key, record, ttl);
+      return true;
+    },
+    set: (key, record, ttl) => entries.set(key, record, ttl),
+    delete: (key) => entries.delete(key),
+  };
+}
+
+/**
+ * Replace the binary values of the body with the hash of their bytes, as they serialize to `{}` in JSON
+ */
+async function toFingerprintValue(value: unknown): Promise<unknown> {
+  if (value instanceof Blob) {
+    const name = value instanceof File ? value.name : undefined;
+    return { $bytes: await hash(new Uint8Array(await value.arrayBuffer())), type: value.type, name };
+  }
+  if (value instanceof ArrayBuffer) {
+    return { $bytes: await hash(new Uint8Array(value)) };
+  }
+  if (ArrayBuffer.isView(value)) {
+    return { $bytes: await hash(new Uint8Array(value.buffer, value.byteOffset, value.byteLength)) };
+  }
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(toFingerprintValue));
+  }
+  // Other objects, such as dates, are serialized by JSON
+  if (typeof value === 'object' && value !== null && [Object.prototype, null].includes(Object.getPrototypeOf(value))) {
+    return Object.fromEntries(
+      await Promise.all(Object.entries(value).map(async ([key, child]) => [key, await toFingerprintValue(child)])),
+    );
+  }
+  return value;
+}
+
+function replay(response: IdempotencyResponse) {
+  const headers = new Headers(response.headers);
+  headers.set('Idempotent-Replayed', 'true');
+  // Null body statuses such as 204 can't be sent with a body
+  return new Response(response.body === '' ? null : decodeBase64(response.body), { status: response.status, headers });
+}
+
+/**
+ * Run the handler once per idempotency key, replaying the stored response for the retries of the request
+ * @param options - The idempotency options of the route
+ * @param request - The request, holding the idempotency key
+ * @param input - The parsed query and body of the request, identifying the request with its method and path,
+ * and the context data of the middlewares, given to the scope of the key
+ * @param run - Run the handler
+ * @returns The response of the handler, or the stored response for a retry
+ * @throws ConflictError when a request with the same key is in flight
+ * @throws UnprocessableEntityError when the key was used for a different request
+ */
+export async function handleIdempotentRequest<TContext>(
+  options: IdempotencyOptions<TContext> & { store: IdempotencyStore },
+  request: Request,
+  input: { query: unknown; body: unknown; data: TContext },
+  run: () => Promise<Response>,
+): Promise<Response> {
+  const headerName = options.header ?? 'Idempotency-Key';
+  const clientKey = request.headers.get(headerName);
+  if (!clientKey) {
+    if (options.required) {
+      throw new BadRequestError(`Missing ${headerName} header`);
+    }
+    return run();
+  }
+
+  const scope = options.scope
+    ? await options.scope({ request, data: input.data })
+    : request.headers.get('authorization') ?? request.headers.get('cookie') ?? '';
+  // The scope is hashed so the credentials of the default scope are not stored
+  const key = `${await hash(scope)}:${clientKey}`;
+
+  const { store } = options;
+  const ttl = options.ttl ?? 24 * 60 * 60 * 1000;
+  const url = new URL(request.url);
+  const fingerprint = await hash(
+    JSON.stringify([request.method, url.pathname, input.query, await toFingerprintValue(input.body)]),
+  );
+
+  const created = await store.create(key, { fingerprint }, ttl);
+  if (!created) {
+    const record = await store.get(key);
+    if (record && record.fingerprint !== fingerprint) {
+      throw new UnprocessableEntityError(`${headerName} was already used for a different request`);
+    }
+    if (!record?.response) {
+      throw new ConflictError(`A request with the same ${headerName} is in progress`);
+    }
+    return replay(record.response);
+  }
+
+  let response: Response;
+  try {
+    response = await run();
+  } catch (error) {
+    await store.delete(key);
+    throw error;
+  }
+
+  // Server errors and streams are not stored, so the request can be retried
+  if (response.status >= 500 || isStreamResponse(response)) {
+    await store.delete(key);
+    return response;
+  }
+
+  await store.set(
+    key,
+    {
+      fingerprint,
+      response: {
+        status: response.status,
+        headers: [...response.headers.entries()],
+        body: encodeBase64(new Uint8Array(await response.clone().arrayBuffer())),
+      },
+    },
+    ttl,
+  );
+  return response;
+}
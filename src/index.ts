@@ -1,2 +1,104 @@
+export {
+  bodyParsers,
+  defaultBodyParsers,
+  type BodyLimits,
+  type BodyParser,
+  type BodyParserOptions,
+} from './bodyParsers';
+export {
+  createMemoryCacheStore,
+  type CacheOptions,
+  type CacheStore,
+  type CachedResponse,
+  type ETagOption,
+} from './cache';
+export { createRouteClient, RouteClientError, type RouteClient, type RouteInput } from './client';
+export { type CoerceOptions } from './coerce';
+export { type CorsOptions, type CorsOrigin } from './cors';
 export { createZodRoute } from './createZodRoute';
-export { type HandlerFunction, type RouteHandlerBuilderConfig, type RouteResult } from './types';
+export {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  GatewayTimeoutError,
+  HttpError,
+  isRouteValidationProblem,
+  NotFoundError,
+  RouteBodyError,
+  RouteValidationError,
+  TooManyRequestsError,
+  UnauthorizedError,
+  UnprocessableEntityError,
+  type HttpErrorOptions,
+  type HttpErrorProblem,
+  type RouteValidationIssue,
+  type RouteValidationLocation,
+  type RouteValidationProblem,
+} from './errors';
+export { type RouteHookContext, type RouteHooks, type RouteTiming } from './hooks';
+export {
+  createMemoryIdempotencyStore,
+  type IdempotencyOptions,
+  type IdempotencyRecord,
+  type IdempotencyResponse,
+  type IdempotencyStore,
+} from './idempotency';
+export {
+  decodeCursor,
+  encodeCursor,
+  type PaginationMode,
+  type PaginationOptions,
+  type PaginationQuerySchema,
+} from './pagination';
+export { type ArrayParsing } from './parseEntries';
+export {
+  generateOpenApiDocument,
+  type JsonSchema,
+  type OpenApiDocument,
+  type OpenApiOperation,
+  type OpenApiParameter,
+} from './openapi';
+export {
+  createMemoryStore,
+  rateLimit,
+  type RateLimitAlgorithm,
+  type RateLimitInfo,
+  type RateLimitOptions,
+  type RateLimitRule,
+  type RateLimitState,
+  type RateLimitStore,
+} from './rateLimit';
+export {
+  type MethodHandlers,
+  type MiddlewareFn,
+  type MiddlewareNextFn,
+  type MiddlewareResult,
+} from './routeHandlerBuilder';
+export { type StreamFormat, type StreamOptions } from './stream';
+export { type TimeoutOptions } from './timeout';
+export {
+  StatusResponse,
+  type ActionFunction,
+  type ActionOptions,
+  type ActionResult,
+  type EventStreamSchema,
+  type ExtendSchema,
+  type FormatValidationErrorFn,
+  type HandlerFunction,
+  type HandlerOutputErrorFn,
+  type HandlerServerErrorContext,
+  type HandlerServerErrorFn,
+  type HttpMethod,
+  type OriginalRouteHandler,
+  type PaginatedEnvelope,
+  type PaginatedPage,
+  type PaginatedSchema,
+  type RespondFn,
+  type ResponseSchemas,
+  type RouteDefinition,
+  type RouteHandlerBuilderConfig,
+  type RouteOpenApiOptions,
+  type RouteResult,
+  type RouteSuccessBody,
+  type ServerAction,
+} from './types';
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+
+import { createZodRoute, generateOpenApiDocument } from '.';
+
+const paramsSchema = z.object({
+  id: z.string().uuid().describe('The user id'),
+});
+
+const querySchema = z.object({
+  search: z.string().min(1),
+  page: z.number().optional(),
+});
+
+const bodySchema = z.object({
+  name: z.string(),
+});
+
+const userSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+});
+
+const GET = createZodRoute()
+  .params(paramsSchema)
+  .query(querySchema)
+  .output(userSchema)
+  .openapi({ summary: 'Get a user', tags: ['users'], operationId: 'getUser' })
+  .handler(() => ({ id: '1', name: 'John' }));
+
+const PUT = createZodRoute()
+  .params(paramsSchema)
+  .body(bodySchema)
+  .handler(() => ({ success: true }));
+
+const LIST = createZodRoute().handler(() => []);
+
+describe('route definition', () => {
+  it('should attach the config to the route handler', () => {
+    expect(GET.definition.config.paramsSchema).toBe(paramsSchema);
+    expect(GET.definition.config.querySchema).toBe(querySchema);
+    expect(GET.definition.config.outputSchema).toBe(userSchema);
+    expect(GET.definition.openapi).toEqual({ summary: 'Get a user', tags: ['users'], operationId: 'getUser' });
+  });
+});
+
+describe('generateOpenApiDocument', () => {
+  const document = generateOpenApiDocument({
+    info: { title: 'Users API', version: '1.0.0' },
+    routes: {
+      'GET /users/{id}': GET,
+      'PUT /users/[id]': PUT,
+      'GET /users': LIST,
+    },
+  });
+
+  it('should group operations by path', () => {
+    expect(document.openapi).toBe('3.1.0');
+    expect(document.info).toEqual({ title: 'Users API', version: '1.0.0' });
+    expect(Object.keys(document.paths)).toEqual(['/users/{id}', '/users']);
+    expect(Object.keys(document.paths['/users/{id}'] ?? {})).toEqual(['get', 'put']);
+  });
+
+  it('should emit path and query parameters', () => {
+    const operation = document.paths['/users/{id}']?.get;
+
+    expect(operation?.operationId).toBe('getUser');
+    expect(operation?.summary).toBe('Get a user');
+    expect(operation?.tags).toEqual(['users']);
+    expect(operation?.parameters).toEqual([
+      {
+        name: 'id',
+        in: 'path',
+        required: true,
+        description: 'The user id',
+        schema: { type: 'string', format: 'uuid' },
+      },
+      { name: 'search', in: 'query', required: true, schema: { type: 'string', minLength: 1 } },
+      { name: 'page', in: 'query', required: false, schema: { type: 'number' } },
+    ]);
+  });
+
+  it('should emit the response schema when an output schema is defined', () => {
+    const operation = document.paths['/users/{id}']?.get;
+
+    expect(operation?.responses[200]?.content?.['application/json']?.schema).toMatchObject({
+      type: 'object',
+      properties: { id: { type: 'string' }, name: { type: 'string' } },
+      required: ['id', 'name'],
+    });
+    expect(operation?.responses[400]?.content).toHaveProperty('application/problem+json');
+    expect(operation?.responses[500]?.content).toHaveProperty('application/json');
+  });
+
+  it('should emit the request body for every supported content type', () => {
+    const operation = document.paths['/users/{id}']?.put;
+
+    expect(operation?.requestBody?.required).toBe(true);
+    expect(Object.keys(operation?.requestBody?.content ?? {})).toEqual([
+      'application/json',
+      'application/x-www-form-urlencoded',
+      'multipart/form-data',
+    ]);
+    expect(operation?.requestBody?.content['application/json']?.schema).toMatchObject({
+      type: 'object',
+      properties: { name: { type: 'string' } },
+    });
+    expect(operation?.responses[200]).toEqual({ description: 'Successful response' });
+  });
+
+  it('should not emit a validation error response for routes without schemas', () => {
+    const operation = document.paths['/users']?.get;
+
+    expect(operation?.parameters).toBeUndefined();
+    expect(Object.keys(operation?.responses ?? {})).toEqual(['200', '500']);
+  });
+
+  it('should emit a response per status defined with responses', () => {
+    const POST = createZodRoute()
+      .body(bodySchema)
+      .responses({ 201: userSchema, 409: z.object({ message: z.string() }) })
+      .handler((request, context) => context.respond(201, { id: '1', name: context.body.name }));
+
+    const operation = generateOpenApiDocument({ info: { title: 'API', version: '1' }, routes: { 'POST /users': POST } })
+      .paths['/users']?.post;
+
+    expect(Object.keys(operation?.responses ?? {})).toEqual(['200', '201', '400', '409', '500']);
+    expect(operation?.responses[201]).toMatchObject({
+      description: 'Created',
+      content: { 'application/json': { schema: { type: 'object', required: ['id', 'name'] } } },
+    });
+    expect(operation?.responses[409]?.description).toBe('Conflict');
+  });
+
+  it('should throw for an invalid route key', () => {
+    expect(() => generateOpenApiDocument({ info: { title: 'API', version: '1' }, routes: { '/users': LIST } })).toThrow(
+      'Invalid route "/users"',
+    );
+  });
+});
@@ -0,0 +1,230 @@
+// eslint-disable-next-line import/no-named-as-default
+import z from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+import { getStatusTitle } from './errors';
+import { streamContentTypes } from './stream';
+import { HttpMethod, OriginalRouteHandler, RouteHandlerBuilderConfig } from './types';
+import { httpMethods } from './utils';
+
+export type JsonSchema = Record<string, unknown>;
+
+type ParameterLocation = 'path' | 'query' | 'header' | 'cookie';
+
+export type OpenApiParameter = {
+  name: string;
+  in: ParameterLocation;
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+};
+
+export type OpenApiMediaType = {
+  schema: JsonSchema;
+};
+
+export type OpenApiResponse = {
+  description: string;
+  content?: Record<string, OpenApiMediaType>;
+};
+
+export type OpenApiOperation = {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  parameters?: OpenApiParameter[];
+  requestBody?: {
+    required: boolean;
+    content: Record<string, OpenApiMediaType>;
+  };
+  responses: Record<string, OpenApiResponse>;
+};
+
+export type OpenApiDocument = {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description?: string };
+  servers?: { url: string; description?: string }[];
+  paths: Record<string, Partial<Record<Lowercase<HttpMethod>, OpenApiOperation>>>;
+};
+
+const bodyContentTypes = ['application/json', 'application/x-www-form-urlencoded', 'multipart/form-data'];
+
+const validationProblemSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string' },
+    title: { type: 'string' },
+    status: { type: 'integer', const: 400 },
+    detail: { type: 'string' },
+    message: { type: 'string' },
+    errors: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          location: { type: 'string', enum: ['params', 'query', 'body', 'headers', 'cookies'] },
+          code: { type: 'string' },
+          path: { type: 'array', items: { type: ['string', 'number'] } },
+          message: { type: 'string' },
+        },
+        required: ['location', 'code', 'path', 'message'],
+      },
+    },
+  },
+  required: ['type', 'title', 'status', 'detail', 'message', 'errors'],
+};
+
+const serverErrorSchema: JsonSchema = {
+  type: 'object',
+  properties: { message: { type: 'string' } },
+  required: ['message'],
+};
+
+/**
+ * Convert a zod schema to a JSON Schema usable in an OpenAPI 3.1 document
+ */
+function toJsonSchema(schema: z.Schema, pipeStrategy: 'input' | 'output'): JsonSchema {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, {
+    target: 'jsonSchema2019-09',
+    $refStrategy: 'none',
+    effectStrategy: 'input',
+    pipeStrategy,
+  });
+  return jsonSchema;
+}
+
+/**
+ * Convert an object schema to a list of parameters, one per property
+ */
+function toParameters(schema: z.Schema | undefined, location: ParameterLocation): OpenApiParameter[] {
+  if (!schema) {
+    return [];
+  }
+
+  const jsonSchema = toJsonSchema(schema, 'input');
+  const properties = (jsonSchema.properties ?? {}) as Record<string, JsonSchema>;
+  const required = (jsonSchema.required ?? []) as string[];
+
+  return Object.entries(properties).map(([name, propertySchema]) => {
+    const { description, ...parameterSchema } = propertySchema;
+    return {
+      name,
+      in: location,
+      required: location === 'path' || required.includes(name),
+      ...(typeof description === 'string' && { description }),
+      schema: parameterSchema,
+    };
+  });
+}
+
+/**
+ * Parse a route key such as `GET /users/{id}` or `GET /users/[id]` into a method and an OpenAPI path
+ */
+function parseRouteKey(key: string): { method: HttpMethod; path: string } {
+  const [method, path] = key.trim().split(/\s+/);
+  const upperMethod = method?.toUpperCase() as HttpMethod;
+
+  if (!path || !httpMethods.includes(upperMethod)) {
+    throw new Error(`Invalid route "${key}", expected "<METHOD> <path>" such as "GET /users/{id}"`);
+  }
+
+  // Convert Next.js dynamic segments ([id], [...slug], [[...slug]]) to OpenAPI path parameters
+  const openApiPath = path.replace(/\[{1,2}(?:\.\.\.)?([^\]]+)\]{1,2}/g, '{$1}');
+
+  return { method: upperMethod, path: openApiPath };
+}
+
+function toOperation(handler: OriginalRouteHandler): OpenApiOperation {
+  const config: Partial<RouteHandlerBuilderConfig> = handler.definition?.config ?? {};
+  const { summary, description, tags, operationId, deprecated } = handler.definition?.openapi ?? {};
+
+  const parameters = [
+    ...toParameters(config.paramsSchema, 'path'),
+    ...toParameters(config.querySchema, 'query'),
+    ...toParameters(config.headersSchema, 'header'),
+    ...toParameters(config.cookiesSchema, 'cookie'),
+  ];
+
+  const operation: OpenApiOperation = {
+    ...(operationId && { operationId }),
+    ...(summary && { summary }),
+    ...(description && { description }),
+    ...(tags && { tags }),
+    ...(deprecated && { deprecated }),
+    ...(parameters.length > 0 && { parameters }),
+    responses: {
+      200: config.outputSchema
+        ? {
+            description: 'Successful response',
+            // The schema of a streaming route describes each event of the stream
+            content: {
+              [config.stream ? streamContentTypes[config.stream.format] : 'application/json']: {
+                schema: toJsonSchema(config.outputSchema, 'output'),
+              },
+            },
+          }
+        : { description: 'Successful response' },
+    },
+  };
+
+  if (config.bodySchema) {
+    const schema = toJsonSchema(config.bodySchema, 'input');
+    operation.requestBody = {
+      required: true,
+      content: Object.fromEntries(
+        (config.contentTypes ?? bodyContentTypes).map((contentType) => [contentType, { schema }]),
+      ),
+    };
+  }
+
+  if (parameters.length > 0 || config.bodySchema) {
+    operation.responses[400] = {
+      description: 'Invalid request',
+      content: { 'application/problem+json': { schema: validationProblemSchema } },
+    };
+  }
+
+  operation.responses[500] = {
+    description: 'Internal server error',
+    content: { 'application/json': { schema: serverErrorSchema } },
+  };
+
+  // Responses sent with `context.respond`, declared statuses replace the default responses
+  for (const [status, schema] of Object.entries(config.responseSchemas ?? {})) {
+    operation.responses[status] = {
+      description: getStatusTitle(Number(status)),
+      content: { 'application/json': { schema: toJsonSchema(schema, 'output') } },
+    };
+  }
+
+  return operation;
+}
+
+/**
+ * Generate an OpenAPI 3.1 document from route handlers created with `createZodRoute`
+ * @param options - The route handlers keyed by method and path (e.g. `{ 'GET /users/{id}': GET }`), the API info and servers
+ * @returns The OpenAPI document
+ */
+export function generateOpenApiDocument(options: {
+  routes: Record<string, OriginalRouteHandler>;
+  info: OpenApiDocument['info'];
+  servers?: OpenApiDocument['servers'];
+}): OpenApiDocument {
+  const { routes, info, servers } = options;
+  const paths: OpenApiDocument['paths'] = {};
+
+  for (const [key, handler] of Object.entries(routes)) {
+    const { method, path } = parseRouteKey(key);
+    paths[path] = { ...paths[path], [method.toLowerCase()]: toOperation(handler) };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info,
+    ...(servers && { servers }),
+    paths,
+  };
+}
@@ -0,0 +1,106 @@
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { z } from 'zod';
+
+import { createZodRoute, decodeCursor, encodeCursor } from '.';
+import { RouteResult } from './types';
+
+const context = { params: Promise.resolve({}) };
+
+const users = Array.from({ length: 5 }, (_, index) => ({ id: index + 1, name: `User ${index + 1}` }));
+
+describe('pagination', () => {
+  describe('offset mode', () => {
+    const GET = createZodRoute()
+      .query(z.object({ search: z.string().optional() }))
+      .paginate({ mode: 'offset', defaultLimit: 2, maxLimit: 3 })
+      .handler((request, context) => {
+        expectTypeOf(context.query).toEqualTypeOf<{ search?: string | undefined; limit: number; offset: number }>();
+        const { limit, offset } = context.query;
+        return { items: users.slice(offset, offset + limit), total: users.length };
+      });
+
+    it('should wrap the items in an envelope with the next offset and Link header', async () => {
+      const response = await GET(new Request('http://localhost/users?search=a&offset=2'), context);
+
+      expect(await response.json()).toEqual({ items: users.slice(2, 4), nextOffset: 4, total: 5 });
+      expect(response.headers.get('Link')).toBe(
+        '<http://localhost/users?search=a&offset=4>; rel="next", <http://localhost/users?search=a&offset=0>; rel="prev"',
+      );
+      expectTypeOf<RouteResult<typeof GET>>().toEqualTypeOf<{
+        items: { id: number; name: string }[];
+        nextOffset: number | null;
+        total?: number;
+      }>();
+    });
+
+    it('should end on the last page', async () => {
+      const response = await GET(new Request('http://localhost/users?offset=3&limit=3'), context);
+
+      expect(await response.json()).toEqual({ items: users.slice(3), nextOffset: null, total: 5 });
+      expect(response.headers.get('Link')).toBe('<http://localhost/users?offset=0&limit=3>; rel="prev"');
+    });
+
+    it('should reject a limit over the maximum', async () => {
+      const response = await GET(new Request('http://localhost/users?limit=10'), context);
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).errors).toEqual([
+        expect.objectContaining({ location: 'query', path: ['limit'], code: 'too_big' }),
+      ]);
+    });
+  });
+
+  describe('cursor mode', () => {
+    const itemSchema = z.object({ id: z.number(), name: z.string() });
+    const handler = vi.fn((request: Request, context: { query: { limit: number; cursor?: { after: number } } }) => {
+      const after = context.query.cursor?.after ?? 0;
+      const items = users.filter((user) => user.id > after).slice(0, context.query.limit);
+      const last = items[items.length - 1];
+      return {
+        items: items.map((item) => ({ ...item, password: 'secret' })),
+        nextCursor: last && last.id < users.length ? { after: last.id } : null,
+      };
+    });
+    const GET = createZodRoute()
+      .paginate({
+        mode: 'cursor',
+        item: itemSchema,
+        cursor: z.object({ after: z.number() }),
+        secret: 'cursor-secret',
+      })
+      .handler(handler);
+
+    it('should encode the next cursor and decode it into the query', async () => {
+      const first = await GET(new Request('http://localhost/users?limit=3'), context);
+      const page = await first.json();
+
+      expect(page.items).toEqual(users.slice(0, 3));
+      expect(await decodeCursor(page.nextCursor, 'cursor-secret')).toEqual({ value: { after: 3 } });
+      expect(first.headers.get('Link')).toBe(`<http://localhost/users?limit=3&cursor=${page.nextCursor}>; rel="next"`);
+
+      const second = await GET(new Request(`http://localhost/users?limit=3&cursor=${page.nextCursor}`), context);
+      expect(await second.json()).toEqual({ items: users.slice(3), nextCursor: null });
+      expect(second.headers.get('Link')).toBeNull();
+      expect(handler.mock.calls[1]?.[1].query.cursor).toEqual({ after: 3 });
+
+      expectTypeOf<RouteResult<typeof GET>>().toEqualTypeOf<{
+        items: { id: number; name: string }[];
+        nextCursor: string | null;
+        total?: number;
+      }>();
+    });
+
+    it('should reject forged and malformed cursors', async () => {
+      const unsigned = await encodeCursor({ after: 3 });
+      const wrongShape = await encodeCursor({ after: 'three' }, 'cursor-secret');
+
+      for (const cursor of [unsigned, `${unsigned}.invalid`, wrongShape, 'not a cursor']) {
+        const response = await GET(new Request(`http://localhost/users?cursor=${encodeURIComponent(cursor)}`), context);
+        expect(response.status).toBe(400);
+        expect((await response.json()).errors).toEqual([
+          expect.objectContaining({ location: 'query', path: ['cursor'], message: 'Invalid cursor' }),
+        ]);
+      }
+    });
+  });
+});
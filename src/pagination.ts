@@ -0,0 +1,204 @@
+// eslint-disable-next-line import/no-named-as-default
+import z, { Schema, ZodDefault, ZodNumber, ZodObject, ZodType, ZodTypeDef, output } from 'zod';
+
+import { RouteValidationError } from './errors';
+import { decodeBase64, encodeBase64 } from './utils';
+
+/**
+ * How a route is paginated:
+ * - `cursor`: the handler returns the cursor of the next page, sent to the client as an opaque string
+ * - `offset`: the client sends the number of items to skip
+ */
+export type PaginationMode = 'cursor' | 'offset';
+
+export type PaginationOptions<
+  TMode extends PaginationMode = PaginationMode,
+  TItem extends Schema = Schema,
+  TCursor extends Schema = Schema,
+> = {
+  mode: TMode;
+  /** Number of items per page when the client doesn't send a `limit`, 20 by default */
+  defaultLimit?: number;
+  /** Maximum number of items per page, 100 by default */
+  maxLimit?: number;
+  /** Schema validating each item, the items are not validated when omitted */
+  item?: TItem;
+  /** Schema of the value encoded in the cursor, a string by default */
+  cursor?: TCursor;
+  /** Secret signing the cursors, so clients can't forge them */
+  secret?: string;
+};
+
+/**
+ * Schema of the pagination fields added to the query, with the decoded cursor in cursor mode
+ */
+export type PaginationQuerySchema<TMode extends PaginationMode, TCursor extends Schema> = TMode extends 'cursor'
+  ? ZodObject<{
+      limit: ZodDefault<ZodNumber>;
+      cursor: ZodType<output<TCursor> | undefined, ZodTypeDef, string | undefined>;
+    }>
+  : ZodObject<{ limit: ZodDefault<ZodNumber>; offset: ZodDefault<ZodNumber> }>;
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array) {
+  return encodeBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string) {
+  return decodeBase64(value.replace(/-/g, '+').replace(/_/g, '/'));
+}
+
+function importKey(secret: string) {
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+    'verify',
+  ]);
+}
+
+async function sign(payload: string, secret: string) {
+  const signature = await crypto.subtle.sign('HMAC', await importKey(secret), encoder.encode(payload));
+  return toBase64Url(new Uint8Array(signature));
+}
+
+async function verify(payload: string, signature: string, secret: string) {
+  try {
+    return await crypto.subtle.verify(
+      'HMAC',
+      await importKey(secret),
+      fromBase64Url(signature),
+      encoder.encode(payload),
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Encode a value into an opaque cursor, signed when a secret is given
+ * @param value - The value identifying the next page, e.g. the id of the last item
+ * @param secret - The secret signing the cursor
+ * @returns The cursor sent to the client
+ */
+export async function encodeCursor(value: unknown, secret?: string): Promise<string> {
+  const payload = toBase64Url(encoder.encode(JSON.stringify(value)));
+  return secret ? `${payload}.${await sign(payload, secret)}` : payload;
+}
+
+/**
+ * Decode a cursor created with `encodeCursor`
+ * @param cursor - The cursor sent by the client
+ * @param secret - The secret the cursor was signed with
+ * @returns The decoded value, or undefined when the cursor is malformed or its signature is invalid
+ */
+export async function decodeCursor(cursor: string, secret?: string): Promise<{ value: unknown } | undefined> {
+  const [payload, signature, ...rest] = cursor.split('.');
+  if (!payload || rest.length > 0) {
+    return undefined;
+  }
+  if (secret ? signature === undefined || !(await verify(payload, signature, secret)) : signature !== undefined) {
+    return undefined;
+  }
+
+  try {
+    return { value: JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Create the schema of the pagination fields of the query: `limit`, and `cursor` or `offset`
+ */
+export function createPaginationQuerySchema(options: PaginationOptions) {
+  const limit = z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(options.maxLimit ?? 100)
+    .default(options.defaultLimit ?? 20);
+
+  return options.mode === 'cursor'
+    ? z.object({ limit, cursor: z.string().optional() })
+    : z.object({ limit, offset: z.coerce.number().int().min(0).default(0) });
+}
+
+/**
+ * Create the schema of the response envelope: the items, the cursor or offset of the next page and the total
+ */
+export function createPaginatedSchema(options: PaginationOptions) {
+  const items = z.array(options.item ?? z.unknown());
+  const total = z.number().int().min(0).optional();
+
+  return options.mode === 'cursor'
+    ? z.object({ items, nextCursor: z.string().nullable(), total })
+    : z.object({ items, nextOffset: z.number().int().nullable(), total });
+}
+
+/**
+ * Decode and validate the cursor of a validated query
+ * @throws RouteValidationError when the cursor is malformed, forged or doesn't match the cursor schema
+ */
+export async function decodePaginationQuery(options: PaginationOptions, query: unknown): Promise<unknown> {
+  const { cursor } = query as { cursor?: string };
+  if (options.mode !== 'cursor' || cursor === undefined) {
+    return query;
+  }
+
+  const decoded = await decodeCursor(cursor, options.secret);
+  const result = decoded && (options.cursor ?? z.string()).safeParse(decoded.value);
+  if (!result?.success) {
+    throw new RouteValidationError([
+      { code: 'custom', path: ['cursor'], message: 'Invalid cursor', location: 'query' },
+    ]);
+  }
+
+  return { ...(query as object), cursor: result.data };
+}
+
+function setSearchParam(url: URL, key: string, value: string | number) {
+  const pageUrl = new URL(url);
+  pageUrl.searchParams.set(key, String(value));
+  return pageUrl.toString();
+}
+
+/**
+ * Wrap the page returned by the handler into the response envelope, with the RFC 8288 `Link` header of the next
+ * (and previous) pages
+ * @param options - The pagination options of the route
+ * @param page - The items returned by the handler, with the cursor of the next page or the total
+ * @param request - The request, used to build the URLs of the pages
+ * @param query - The validated query, holding the limit and offset
+ * @returns The envelope and the Link header, undefined when there are no other pages
+ */
+export async function createPaginatedEnvelope(
+  options: PaginationOptions,
+  page: unknown,
+  request: Request,
+  query: unknown,
+): Promise<{ envelope: unknown; link?: string }> {
+  const { items, nextCursor, total } = page as { items: unknown[]; nextCursor?: unknown; total?: number };
+  const { limit, offset = 0 } = query as { limit: number; offset?: number };
+  const url = new URL(request.url);
+  const links: string[] = [];
+
+  if (options.mode === 'cursor') {
+    const cursor =
+      nextCursor === undefined || nextCursor === null ? null : await encodeCursor(nextCursor, options.secret);
+    if (cursor) {
+      links.push(`<${setSearchParam(url, 'cursor', cursor)}>; rel="next"`);
+    }
+    return { envelope: { items, nextCursor: cursor, total }, link: links.join(', ') || undefined };
+  }
+
+  // Without a total, a full page means there may be another one
+  const hasNext = total !== undefined ? offset + items.length < total : items.length >= limit;
+  const nextOffset = hasNext ? offset + items.length : null;
+  if (nextOffset !== null) {
+    links.push(`<${setSearchParam(url, 'offset', nextOffset)}>; rel="next"`);
+  }
+  if (offset > 0) {
+    links.push(`<${setSearchParam(url, 'offset', Math.max(0, offset - limit))}>; rel="prev"`);
+  }
+  return { envelope: { items, nextOffset, total }, link: links.join(', ') || undefined };
+}
@@ -0,0 +1,92 @@
+import { ZodTypeAny } from 'zod';
+
+import { getChildSchema, isArraySchema } from './utils';
+
+/**
+ * How repeated keys are parsed:
+ * - `auto`: repeated keys become an array when the schema expects an array, the last value wins otherwise
+ * - `always`: repeated keys always become an array
+ */
+export type ArrayParsing = 'auto' | 'always';
+
+type EntryNode = {
+  values: unknown[];
+  forceArray: boolean;
+  children?: Map<string, EntryNode>;
+};
+
+const createNode = (): EntryNode => ({ values: [], forceArray: false });
+
+/**
+ * Split a key using bracket notation into its path, e.g. `filter[status]` into `['filter', 'status']`.
+ * An empty last segment (`tag[]`) marks the key as an array.
+ */
+function parseKey(key: string): { path: string[]; forceArray: boolean } {
+  const match = key.match(/^([^[\]]+)((?:\[[^[\]]*\])+)$/);
+  if (!match) {
+    return { path: [key], forceArray: false };
+  }
+
+  const [, name, brackets] = match as unknown as [string, string, string];
+  const segments = [...brackets.matchAll(/\[([^[\]]*)\]/g)].map(([, segment]) => segment as string);
+  const forceArray = segments[segments.length - 1] === '';
+
+  return { path: [name, ...(forceArray ? segments.slice(0, -1) : segments)], forceArray };
+}
+
+function normalizeNode(node: EntryNode, schema: ZodTypeAny | undefined, arrayParsing: ArrayParsing): unknown {
+  if (node.children) {
+    const entries = [...node.children.entries()].map(
+      ([key, child]) => [key, normalizeNode(child, getChildSchema(schema, key), arrayParsing)] as const,
+    );
+
+    // Indexed keys such as `items[0]=a&items[1]=b` become an array when the schema expects one
+    if (isArraySchema(schema) && entries.every(([key]) => /^\d+$/.test(key))) {
+      return entries.sort(([a], [b]) => Number(a) - Number(b)).map(([, value]) => value);
+    }
+
+    return Object.fromEntries(entries);
+  }
+
+  if (node.forceArray || arrayParsing === 'always' || isArraySchema(schema)) {
+    return node.values;
+  }
+
+  return node.values[node.values.length - 1];
+}
+
+/**
+ * Parse the entries of URLSearchParams or FormData into a plain object.
+ * Repeated keys are parsed into arrays and bracket notation (`tag[]=a`, `filter[status]=open`) into nested values.
+ * @param entries - The entries to parse
+ * @param schema - The schema the result is validated against, used to find which keys expect an array
+ * @param arrayParsing - How repeated keys are parsed
+ * @returns The parsed object
+ */
+export function parseEntries(
+  entries: Iterable<[string, unknown]>,
+  schema: ZodTypeAny | undefined,
+  arrayParsing: ArrayParsing = 'auto',
+): Record<string, unknown> {
+  const root = createNode();
+
+  for (const [key, value] of entries) {
+    const { path, forceArray } = parseKey(key);
+
+    let node = root;
+    for (const segment of path) {
+      node.children ??= new Map();
+      let child = node.children.get(segment);
+      if (!child) {
+        child = createNode();
+        node.children.set(segment, child);
+      }
+      node = child;
+    }
+
+    node.values.push(value);
+    node.forceArray ||= forceArray;
+  }
+
+  return root.children ? (normalizeNode(root, schema, arrayParsing) as Record<string, unknown>) : {};
+}
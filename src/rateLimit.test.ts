@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { z } from 'zod';
+
+import { RateLimitInfo, createMemoryStore, createZodRoute, rateLimit } from '.';
+
+const request = (ip = '1.1.1.1') => new Request('http://localhost/', { headers: { 'x-forwarded-for': ip } });
+const params = { params: Promise.resolve({}) };
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('rateLimit', () => {
+  it('should reject requests over the limit with a 429 and the rate limit headers', async () => {
+    const GET = createZodRoute()
+      .use(rateLimit({ limit: 2, window: 60_000 }))
+      .handler((req, context) => {
+        expectTypeOf(context.data.rateLimit).toEqualTypeOf<RateLimitInfo>();
+        return { remaining: context.data.rateLimit.remaining };
+      });
+
+    const first = await GET(request(), params);
+    expect(await first.json()).toEqual({ remaining: 1 });
+    expect(first.headers.get('RateLimit-Limit')).toBe('2');
+    expect(first.headers.get('RateLimit-Remaining')).toBe('1');
+    expect(first.headers.get('RateLimit-Reset')).toBe('60');
+
+    await GET(request(), params);
+    const limited = await GET(request(), params);
+
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBe('60');
+    expect(limited.headers.get('RateLimit-Remaining')).toBe('0');
+    expect(await limited.json()).toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+
+    // Other clients have their own quota
+    expect((await GET(request('2.2.2.2'), params)).status).toBe(200);
+
+    vi.advanceTimersByTime(60_000);
+    expect((await GET(request(), params)).status).toBe(200);
+  });
+
+  it('should count concurrent requests', async () => {
+    const GET = createZodRoute()
+      .use(rateLimit({ limit: 1, window: 60_000 }))
+      .handler(() => ({ ok: true }));
+
+    const responses = await Promise.all(Array.from({ length: 5 }, () => GET(request(), params)));
+
+    expect(responses.map((response) => response.status).sort()).toEqual([200, 429, 429, 429, 429]);
+  });
+
+  it('should weight the previous window with the sliding window algorithm', async () => {
+    const GET = createZodRoute()
+      .use(rateLimit({ limit: 4, window: 60_000, algorithm: 'sliding-window' }))
+      .handler(() => ({ ok: true }));
+
+    for (let index = 0; index < 4; index += 1) {
+      await GET(request(), params);
+    }
+
+    // A quarter into the next window, 75% of the previous window still counts: 3 requests
+    vi.advanceTimersByTime(75_000);
+    expect((await GET(request(), params)).status).toBe(200);
+    expect((await GET(request(), params)).status).toBe(429);
+  });
+
+  it('should refill tokens continuously with the token bucket algorithm', async () => {
+    const GET = createZodRoute()
+      .use(rateLimit({ limit: 2, window: 2_000, algorithm: 'token-bucket' }))
+      .handler(() => ({ ok: true }));
+
+    await GET(request(), params);
+    await GET(request(), params);
+    const limited = await GET(request(), params);
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBe('1');
+
+    vi.advanceTimersByTime(1_000);
+    expect((await GET(request(), params)).status).toBe(200);
+    expect((await GET(request(), params)).status).toBe(429);
+  });
+
+  it('should count requests by a custom key and read the rule from the metadata', async () => {
+    const store = createMemoryStore();
+    const route = createZodRoute({ metadataSchema: z.object({ rateLimit: z.number().optional() }) })
+      .use(async () => ({ userId: 'user-1' }))
+      .use(
+        rateLimit<{ userId: string }, { rateLimit?: number }>({
+          limit: 100,
+          window: 60_000,
+          store,
+          key: ({ context }) => context.userId,
+          fromMetadata: (metadata) => (metadata.rateLimit ? { limit: metadata.rateLimit } : undefined),
+        }),
+      );
+
+    const strictGET = route.metadata({ rateLimit: 1 }).handler(() => ({ ok: true }));
+    const defaultGET = route.metadata({}).handler(() => ({ ok: true }));
+
+    expect((await strictGET(request('1.1.1.1'), params)).status).toBe(200);
+    expect((await strictGET(request('2.2.2.2'), params)).status).toBe(429);
+
+    const response = await defaultGET(request(), params);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('RateLimit-Remaining')).toBe('99');
+  });
+
+  it('should read the client IP from the entry appended by the trusted proxy', async () => {
+    const GET = createZodRoute()
+      .use(rateLimit({ limit: 1, window: 60_000 }))
+      .handler(() => ({ ok: true }));
+    const twoProxiesGET = createZodRoute()
+      .use(rateLimit({ limit: 1, window: 60_000, trustedProxies: 2 }))
+      .handler(() => ({ ok: true }));
+
+    // Entries forged by the client don't get a new quota
+    expect((await GET(request('1.1.1.1, 3.3.3.3'), params)).status).toBe(200);
+    expect((await GET(request('2.2.2.2, 3.3.3.3'), params)).status).toBe(429);
+
+    expect((await twoProxiesGET(request('1.1.1.1, 3.3.3.3, 10.0.0.1'), params)).status).toBe(200);
+    expect((await twoProxiesGET(request('2.2.2.2, 3.3.3.3, 10.0.0.1'), params)).status).toBe(429);
+    expect((await twoProxiesGET(request('4.4.4.4, 10.0.0.1'), params)).status).toBe(200);
+
+    const realIpRequest = new Request('http://localhost/', { headers: { 'x-real-ip': '5.5.5.5' } });
+    expect((await GET(realIpRequest, params)).status).toBe(200);
+  });
+
+  it('should fail when the client IP cannot be determined', async () => {
+    const GET = createZodRoute()
+      .use(rateLimit({ limit: 1, window: 60_000 }))
+      .handler(() => ({ ok: true }));
+
+    const responses = [
+      await GET(new Request('http://localhost/'), params),
+      await GET(new Request('http://localhost/'), params),
+    ];
+    expect(responses.map((response) => response.status)).toEqual([500, 500]);
+  });
+
+  it('should count the calls of a server action by the IP of its request', async () => {
+    let ip = '1.1.1.1';
+    const action = createZodRoute()
+      .use(rateLimit({ limit: 1, window: 60_000 }))
+      .body(z.object({ title: z.string() }))
+      .action((input) => input.title, { request: () => request(ip) });
+
+    expect(await action({ title: 'Hello' })).toEqual({ data: 'Hello' });
+    expect(await action({ title: 'Hello' })).toEqual({ serverError: 'Too Many Requests' });
+
+    ip = '2.2.2.2';
+    expect(await action({ title: 'Hello' })).toEqual({ data: 'Hello' });
+  });
+
+  it('should skip rate limiting when the metadata disables it', async () => {
+    const GET = createZodRoute()
+      .metadata({ public: true })
+      .use(rateLimit({ limit: 1, window: 60_000, fromMetadata: () => false }))
+      .handler(() => ({ ok: true }));
+
+    await GET(request(), params);
+    expect((await GET(request(), params)).status).toBe(200);
+  });
+});
@@ -0,0 +1,214 @@
+import { TooManyRequestsError } from './errors';
+import { MiddlewareFn } from './routeHandlerBuilder';
+import { createExpiringMap, updateHeaders } from './utils';
+
+/**
+ * How requests are counted:
+ * - `fixed-window`: at most `limit` requests per window, the counter resets at the end of each window
+ * - `sliding-window`: like the fixed window, weighting the previous window to smooth bursts at window boundaries
+ * - `token-bucket`: a bucket of `limit` tokens refilled continuously over the window, each request takes a token
+ */
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window' | 'token-bucket';
+
+/**
+ * State of a rate limit key, as stored by the store
+ */
+export type RateLimitState = Record<string, number>;
+
+/**
+ * Store holding the state of every rate limit key, implement it to share the limits between instances (e.g. Redis)
+ */
+export type RateLimitStore = {
+  /**
+   * Replace the state of a key with the one computed by `update` from the current state, atomically so concurrent
+   * requests don't read the same state. The state can be dropped after `ttl` milliseconds.
+   * `update` can be called again when the state changed in the meantime, e.g. with a Redis transaction.
+   */
+  update(key: string, update: (state: RateLimitState | undefined) => RateLimitState, ttl: number): Promise<void> | void;
+};
+
+export type RateLimitRule = {
+  /** Maximum number of requests per window */
+  limit: number;
+  /** Duration of the window in milliseconds */
+  window: number;
+  algorithm?: RateLimitAlgorithm;
+};
+
+/**
+ * Rate limit of the current request, added to the context data as `rateLimit`
+ */
+export type RateLimitInfo = {
+  limit: number;
+  remaining: number;
+  /** Seconds until the quota is restored */
+  reset: number;
+};
+
+export type RateLimitOptions<TContext, TMetadata> = RateLimitRule & {
+  /** Store of the limits, an in-memory store by default */
+  store?: RateLimitStore;
+  /** Key the requests are counted by, the client IP by default */
+  key?: (opts: { request: Request; context: TContext; metadata: TMetadata }) => string | Promise<string>;
+  /**
+   * Number of proxies in front of the app appending to the `X-Forwarded-For` header, 1 by default (e.g. Vercel).
+   * The client IP is read from the entry appended by the outermost proxy, the entries before it can be forged.
+   */
+  trustedProxies?: number;
+  /** Override the rule from the metadata of the route, return `false` to skip rate limiting */
+  fromMetadata?: (metadata: TMetadata) => Partial<RateLimitRule> | false | undefined;
+};
+
+/**
+ * Create a store keeping the limits in memory, for a single server instance
+ */
+export function createMemoryStore(): RateLimitStore {
+  const entries = createExpiringMap<RateLimitState>();
+
+  return {
+    // The state is read and written synchronously, so concurrent requests can't interleave
+    update(key, update, ttl) {
+      entries.set(key, update(entries.get(key)), ttl);
+    },
+  };
+}
+
+/**
+ * Get the IP of the client from the entry of the `X-Forwarded-For` header appended by the outermost trusted proxy,
+ * or from the `X-Real-IP` header
+ * @throws Error when the IP can't be determined, rather than counting every client in the same bucket
+ */
+function getClientIp(request: Request, trustedProxies: number) {
+  const forwardedFor = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const ip = forwardedFor[Math.max(0, forwardedFor.length - trustedProxies)] ?? request.headers.get('x-real-ip');
+  if (!ip) {
+    throw new Error('Unable to determine the client IP for rate limiting, set the `key` option');
+  }
+  return ip;
+}
+
+type RateLimitResult = { allowed: boolean; remaining: number; resetIn: number; state: RateLimitState };
+
+function consume(
+  algorithm: RateLimitAlgorithm,
+  rule: RateLimitRule,
+  state: RateLimitState | undefined,
+  now: number,
+): RateLimitResult {
+  const { limit, window } = rule;
+
+  if (algorithm === 'token-bucket') {
+    const refillRate = limit / window;
+    const elapsed = now - (state?.updatedAt ?? now);
+    const tokens = Math.min(limit, (state?.tokens ?? limit) + elapsed * refillRate);
+    const allowed = tokens >= 1;
+    const remainingTokens = allowed ? tokens - 1 : tokens;
+
+    return {
+      allowed,
+      remaining: Math.floor(remainingTokens),
+      // Time until the next token when blocked, until the bucket is full otherwise
+      resetIn: allowed ? (limit - remainingTokens) / refillRate : (1 - remainingTokens) / refillRate,
+      state: { tokens: remainingTokens, updatedAt: now },
+    };
+  }
+
+  const windowStart = Math.floor(now / window) * window;
+  let count = state?.windowStart === windowStart ? state.count ?? 0 : 0;
+  let previousCount = 0;
+  if (state?.windowStart === windowStart) {
+    previousCount = state.previousCount ?? 0;
+  } else if (state?.windowStart === windowStart - window) {
+    previousCount = state.count ?? 0;
+  }
+
+  // The sliding window weights the previous window by the part of it still covered
+  const weight = algorithm === 'sliding-window' ? 1 - (now - windowStart) / window : 0;
+  const used = Math.floor(previousCount * weight) + count;
+  const allowed = used < limit;
+  if (allowed) {
+    count += 1;
+  }
+
+  return {
+    allowed,
+    remaining: Math.max(0, limit - used - (allowed ? 1 : 0)),
+    resetIn: windowStart + window - now,
+    state: { windowStart, count, previousCount },
+  } satisfies RateLimitResult;
+}
+
+/**
+ * Create a middleware limiting the number of requests per key, the client IP by default.
+ * Requests over the limit are rejected with a 429 and the `Retry-After` header, and every response gets the
+ * `RateLimit-Limit`, `RateLimit-Remaining` and `RateLimit-Reset` headers.
+ * @param options - The limit, the window, the algorithm, the store and the key of the requests
+ * @returns A middleware adding the rate limit of the request to the context data as `rateLimit`
+ *
+ * @example
+ * ```ts
+ * const route = createZodRoute().use(rateLimit({ limit: 100, window: 60_000 }));
+ * ```
+ */
+export function rateLimit<TContext = unknown, TMetadata = unknown>(
+  options: RateLimitOptions<TContext, TMetadata>,
+): MiddlewareFn<TContext, { rateLimit: RateLimitInfo }, TMetadata> {
+  const store = options.store ?? createMemoryStore();
+
+  return async ({ request, context, metadata, next }) => {
+    const override = options.fromMetadata?.(metadata);
+    if (override === false) {
+      return next({ context: { rateLimit: { limit: Infinity, remaining: Infinity, reset: 0 } } });
+    }
+
+    const rule: RateLimitRule = {
+      limit: options.limit,
+      window: options.window,
+      algorithm: options.algorithm,
+      ...override,
+    };
+    const algorithm = rule.algorithm ?? 'fixed-window';
+    const key = options.key
+      ? await options.key({ request, context, metadata })
+      : getClientIp(request, options.trustedProxies ?? 1);
+    // Routes with different rules don't share their counters
+    const storeKey = `${algorithm}:${rule.limit}:${rule.window}:${key}`;
+
+    let result = undefined as RateLimitResult | undefined;
+    // Keep the state for two windows, the sliding window reads the previous one
+    await store.update(
+      storeKey,
+      (state) => {
+        result = consume(algorithm, rule, state, Date.now());
+        return result.state;
+      },
+      rule.window * 2,
+    );
+    if (!result) {
+      throw new Error('The rate limit store must call the update function');
+    }
+
+    const reset = Math.max(0, Math.ceil(result.resetIn / 1000));
+    const headers = {
+      'RateLimit-Limit': `${rule.limit}`,
+      'RateLimit-Remaining': `${result.remaining}`,
+      'RateLimit-Reset': `${reset}`,
+      'RateLimit-Policy': `${rule.limit};w=${Math.ceil(rule.window / 1000)}`,
+    };
+
+    if (!result.allowed) {
+      throw new TooManyRequestsError(undefined, { retryAfter: Math.max(1, reset), headers });
+    }
+
+    const { response } = await next({
+      context: { rateLimit: { limit: rule.limit, remaining: result.remaining, reset } },
+    });
+
+    return updateHeaders(response, (responseHeaders) =>
+      Object.entries(headers).forEach(([name, value]) => responseHeaders.set(name, value)),
+    );
+  };
+}
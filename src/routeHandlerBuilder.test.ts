@@ -1,7 +1,16 @@
-import { describe, expect, expectTypeOf, it } from 'vitest';
+import { ReadableStream } from 'node:stream/web';
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
 import { z } from 'zod';
 
-import { createZodRoute } from '.';
+import {
+  NotFoundError,
+  RouteValidationError,
+  RouteValidationIssue,
+  TooManyRequestsError,
+  createZodRoute,
+  isRouteValidationProblem,
+} from '.';
+import { RouteTiming } from './hooks';
 import { RouteResult } from './types';
 
 const paramsSchema = z.object({
@@ -474,3 +483,1490 @@ describe('HTTP methods handling', () => {
     expect(data).toEqual({ success: true });
   });
 });
+
+describe('output validation', () => {
+  const outputSchema = z.object({
+    id: z.string(),
+    email: z.string().email(),
+  });
+
+  it('should strip unknown keys from the output', async () => {
+    const GET = createZodRoute()
+      .output(outputSchema)
+      .handler(() => {
+        return { id: 'user-123', email: 'john@example.com', passwordHash: 'secret' };
+      });
+
+    type Result = RouteResult<typeof GET>;
+    expectTypeOf<Result>().toEqualTypeOf<{ id: string; email: string }>();
+
+    const response = await GET(new Request('http://localhost/'), { params: Promise.resolve({}) });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ id: 'user-123', email: 'john@example.com' });
+  });
+
+  it('should return a 500 error for invalid output', async () => {
+    const GET = createZodRoute()
+      .output(outputSchema)
+      .handler(() => {
+        return { id: 'user-123', email: 'not-an-email' };
+      });
+
+    const response = await GET(new Request('http://localhost/'), { params: Promise.resolve({}) });
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data).toEqual({ message: 'Invalid output' });
+  });
+
+  it('should call handleOutputValidationError for invalid output', async () => {
+    const handleOutputValidationError = vi.fn((error: z.ZodError) => {
+      return new Response(JSON.stringify({ message: 'Custom output error', issues: error.issues.length }), {
+        status: 500,
+      });
+    });
+
+    const GET = createZodRoute({ handleOutputValidationError })
+      .output(outputSchema)
+      .handler(() => {
+        return { id: 'user-123', email: 'not-an-email' };
+      });
+
+    const response = await GET(new Request('http://localhost/'), { params: Promise.resolve({}) });
+    const data = await response.json();
+
+    expect(handleOutputValidationError).toHaveBeenCalledOnce();
+    expect(response.status).toBe(500);
+    expect(data).toEqual({ message: 'Custom output error', issues: 1 });
+  });
+
+  it('should not validate Response objects returned by the handler', async () => {
+    const GET = createZodRoute()
+      .output(outputSchema)
+      .handler(() => {
+        return Response.json({ custom: 'response' }, { status: 201 });
+      });
+
+    const response = await GET(new Request('http://localhost/'), { params: Promise.resolve({}) });
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual({ custom: 'response' });
+  });
+});
+
+describe('headers and cookies validation', () => {
+  const headersSchema = z.object({
+    authorization: z.string().startsWith('Bearer '),
+    'x-tenant-id': z.string().min(1),
+  });
+
+  const cookiesSchema = z.object({
+    session: z.string().min(1),
+  });
+
+  it('should validate and handle valid headers and cookies', async () => {
+    const GET = createZodRoute()
+      .headers(headersSchema)
+      .cookies(cookiesSchema)
+      .handler((request, context) => {
+        expectTypeOf(context.headers).toMatchTypeOf<z.infer<typeof headersSchema>>();
+        expectTypeOf(context.cookies).toMatchTypeOf<z.infer<typeof cookiesSchema>>();
+
+        return { tenant: context.headers['x-tenant-id'], session: context.cookies.session };
+      });
+
+    const request = new Request('http://localhost/', {
+      headers: {
+        Authorization: 'Bearer token',
+        'X-Tenant-Id': 'tenant-1',
+        Cookie: 'theme=dark; session=abc%20123',
+      },
+    });
+    const response = await GET(request, { params: Promise.resolve({}) });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ tenant: 'tenant-1', session: 'abc 123' });
+  });
+
+  it('should return an error for invalid headers', async () => {
+    const GET = createZodRoute()
+      .headers(headersSchema)
+      .handler(() => {
+        return { success: true };
+      });
+
+    const request = new Request('http://localhost/', { headers: { 'X-Tenant-Id': 'tenant-1' } });
+    const response = await GET(request, { params: Promise.resolve({}) });
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.message).toBe('Invalid headers');
+  });
+
+  it('should return an error for invalid cookies', async () => {
+    const GET = createZodRoute()
+      .cookies(cookiesSchema)
+      .handler(() => {
+        return { success: true };
+      });
+
+    const request = new Request('http://localhost/', { headers: { Cookie: 'theme=dark' } });
+    const response = await GET(request, { params: Promise.resolve({}) });
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.message).toBe('Invalid cookies');
+  });
+});
+
+describe('metadata', () => {
+  const metadataSchema = z.object({
+    roles: z.array(z.enum(['admin', 'user'])),
+    action: z.string().optional(),
+  });
+
+  it('should pass the metadata to middlewares and to the handler', async () => {
+    const authMiddleware = vi.fn(async ({ metadata }: { metadata: z.infer<typeof metadataSchema> }) => {
+      return { allowed: metadata.roles.includes('admin') };
+    });
+
+    const DELETE = createZodRoute({ metadataSchema })
+      .metadata({ roles: ['admin'], action: 'deleteUser' })
+      .use(authMiddleware)
+      .handler((request, context) => {
+        expectTypeOf(context.metadata).toEqualTypeOf<z.infer<typeof metadataSchema>>();
+
+        return { action: context.metadata.action, allowed: context.data.allowed };
+      });
+
+    const response = await DELETE(new Request('http://localhost/', { method: 'DELETE' }), {
+      params: Promise.resolve({}),
+    });
+    const data = await response.json();
+
+    expect(authMiddleware).toHaveBeenCalledWith(
+      expect.objectContaining({ metadata: { roles: ['admin'], action: 'deleteUser' } }),
+    );
+    expect(data).toEqual({ action: 'deleteUser', allowed: true });
+  });
+
+  it('should throw when the metadata does not match the metadata schema', () => {
+    const route = createZodRoute({ metadataSchema });
+
+    expect(() => route.handler(() => ({}))).toThrow(z.ZodError);
+  });
+
+  it('should accept any metadata without a metadata schema', async () => {
+    const GET = createZodRoute()
+      .metadata({ rateLimit: 'strict' })
+      .handler((request, context) => {
+        return { metadata: context.metadata };
+      });
+
+    const response = await GET(new Request('http://localhost/'), { params: Promise.resolve({}) });
+
+    expect(await response.json()).toEqual({ metadata: { rateLimit: 'strict' } });
+  });
+});
+
+describe('middleware chain', () => {
+  it('should stop the chain when a middleware returns a Response', async () => {
+    const handler = vi.fn(() => ({ success: true }));
+
+    const GET = createZodRoute()
+      .use(async ({ request }) => {
+        if (!request.headers.get('authorization')) {
+          return new Response(JSON.stringify({ message: 'Unauthorized' }), { status: 401 });
+        }
+        return { user: { id: 'user-123' } };
+      })
+      .handler(handler);
+
+    const response = await GET(new Request('http://localhost/'), { params: Promise.resolve({}) });
+
+    expect(response.status).toBe(401);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should wrap the rest of the chain and change the final response with next()', async () => {
+    const calls: string[] = [];
+
+    const GET = createZodRoute()
+      .use(async ({ next }) => {
+        calls.push('timing:start');
+        try {
+          const result = await next();
+          result.response.headers.set('X-Response-Time', '1ms');
+          return result;
+        } finally {
+          calls.push('timing:end');
+        }
+      })
+      .use(async ({ next }) => {
+        return next({ context: { user: { id: 'user-123' } } });
+      })
+      .handler((request, context) => {
+        expectTypeOf(context.data.user).toEqualTypeOf<{ id: string }>();
+        calls.push('handler');
+        return { userId: context.data.user.id };
+      });
+
+    const response = await GET(new Request('http://localhost/'), { params: Promise.resolve({}) });
+
+    expect(calls).toEqual(['timing:start', 'handler', 'timing:end']);
+    expect(response.headers.get('X-Response-Time')).toBe('1ms');
+    expect(await response.json()).toEqual({ userId: 'user-123' });
+  });
+
+  it('should let errors thrown by the handler propagate through the chain', async () => {
+    const rollback = vi.fn();
+
+    const GET = createZodRoute()
+      .use(async ({ next }) => {
+        try {
+          return await next({ context: { transaction: 'tx-1' } });
+        } catch (error) {
+          rollback();
+          throw error;
+        }
+      })
+      .handler(() => {
+        throw new Error('Test error');
+      });
+
+    const response = await GET(new Request('http://localhost/'), { params: Promise.resolve({}) });
+
+    expect(rollback).toHaveBeenCalledOnce();
+    expect(response.status).toBe(500);
+  });
+
+  it('should run middlewares before validation when requested', async () => {
+    const POST = createZodRoute()
+      .body(bodySchema)
+      .use(
+        async ({ request }) => {
+          if (!request.headers.get('authorization')) {
+            return new Response(JSON.stringify({ message: 'Unauthorized' }), { status: 401 });
+          }
+          return {};
+        },
+        { beforeValidation: true },
+      )
+      .handler((request, context) => {
+        return { field: context.body.field };
+      });
+
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      body: JSON.stringify({ field: 'test-field' }),
+    });
+    const response = await POST(request, { params: Promise.resolve({}) });
+
+    expect(response.status).toBe(401);
+    expect(request.bodyUsed).toBe(false);
+  });
+
+  it('should run middlewares after validation by default', async () => {
+    const middleware = vi.fn(async () => ({}));
+
+    const POST = createZodRoute()
+      .body(bodySchema)
+      .use(middleware)
+      .handler(() => ({ success: true }));
+
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      body: JSON.stringify({ field: 123 }),
+    });
+    const response = await POST(request, { params: Promise.resolve({}) });
+
+    expect(response.status).toBe(400);
+    expect(middleware).not.toHaveBeenCalled();
+  });
+});
+
+describe('validation errors', () => {
+  it('should collect the issues of every part of the request', async () => {
+    const POST = createZodRoute()
+      .params(paramsSchema)
+      .query(querySchema)
+      .body(bodySchema)
+      .handler(() => ({ success: true }));
+
+    const request = new Request('http://localhost/?search=', {
+      method: 'POST',
+      body: JSON.stringify({ field: 123 }),
+    });
+    const response = await POST(request, { params: paramsToPromise({ id: 'invalid-uuid' }) });
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(response.headers.get('Content-Type')).toBe('application/problem+json');
+    expect(isRouteValidationProblem(data)).toBe(true);
+    expect(data).toMatchObject({
+      type: 'about:blank',
+      title: 'Bad Request',
+      status: 400,
+      detail: 'Invalid params, query, body',
+    });
+    expect(data.errors.map((issue: RouteValidationIssue) => [issue.location, issue.path])).toEqual([
+      ['params', ['id']],
+      ['query', ['search']],
+      ['body', ['field']],
+    ]);
+  });
+
+  it('should use formatValidationError to build the response', async () => {
+    const POST = createZodRoute({
+      formatValidationError: (error) => {
+        expect(error).toBeInstanceOf(RouteValidationError);
+        return Response.json({ error: 'validation', locations: error.locations }, { status: 422 });
+      },
+    })
+      .params(paramsSchema)
+      .body(bodySchema)
+      .handler(() => ({ success: true }));
+
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      body: JSON.stringify({ field: 123 }),
+    });
+    const response = await POST(request, { params: paramsToPromise({ id: 'invalid-uuid' }) });
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toEqual({ error: 'validation', locations: ['params', 'body'] });
+  });
+});
+
+describe('multi-value handling', () => {
+  it('should parse repeated query keys into an array when the schema expects one', async () => {
+    const GET = createZodRoute()
+      .query(z.object({ tag: z.array(z.string()), ids: z.array(z.string()), search: z.string() }))
+      .handler((request, context) => context.query);
+
+    const request = new Request('http://localhost/?tag=a&tag=b&ids=1&search=first&search=last');
+    const response = await GET(request, { params: Promise.resolve({}) });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ tag: ['a', 'b'], ids: ['1'], search: 'last' });
+  });
+
+  it('should parse bracket notation in the query', async () => {
+    const GET = createZodRoute()
+      .query(
+        z.object({
+          tag: z.array(z.string()),
+          filter: z.object({ status: z.enum(['open', 'closed']), owner: z.string() }),
+        }),
+      )
+      .handler((request, context) => context.query);
+
+    const request = new Request('http://localhost/?tag[]=a&filter[status]=open&filter[owner]=me');
+    const response = await GET(request, { params: Promise.resolve({}) });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ tag: ['a'], filter: { status: 'open', owner: 'me' } });
+  });
+
+  it('should always parse repeated keys into arrays with arrayParsing set to always', async () => {
+    const GET = createZodRoute({ arrayParsing: 'always' }).handler((request, context) => context.query);
+
+    const request = new Request('http://localhost/?tag=a&tag=b&search=test');
+    const response = await GET(request, { params: Promise.resolve({}) });
+
+    expect(await response.json()).toEqual({ tag: ['a', 'b'], search: ['test'] });
+  });
+
+  it('should parse multiple files of a multipart form', async () => {
+    const POST = createZodRoute()
+      .body(z.object({ title: z.string(), files: z.array(z.instanceof(Blob)).min(1) }))
+      .handler((request, context) => {
+        return { title: context.body.title, sizes: context.body.files.map((file) => file.size) };
+      });
+
+    const formData = new FormData();
+    formData.append('title', 'Photos');
+    formData.append('files', new Blob(['a']));
+    formData.append('files', new Blob(['bb']));
+
+    const request = new Request('http://localhost/', { method: 'POST', body: formData });
+    const response = await POST(request, { params: Promise.resolve({}) });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ title: 'Photos', sizes: [1, 2] });
+  });
+});
+
+describe('coercion', () => {
+  const filtersSchema = z.object({
+    page: z.number().int().min(1),
+    active: z.boolean(),
+    since: z.date(),
+    id: z.bigint(),
+    ids: z.array(z.number()),
+    sort: z.enum(['asc', 'desc']).optional(),
+    limit: z.number().optional(),
+  });
+
+  it('should coerce string inputs to the types expected by the schema', async () => {
+    const GET = createZodRoute()
+      .query(filtersSchema)
+      .coerce()
+      .handler((request, context) => {
+        expectTypeOf(context.query.page).toEqualTypeOf<number>();
+
+        const { page, active, since, id, ids, sort, limit } = context.query;
+        return { page, active, since: since.toISOString(), id: id.toString(), ids, sort, limit: limit ?? null };
+      });
+
+    const request = new Request(
+      'http://localhost/?page=2&active=true&since=2024-01-01T00:00:00.000Z&id=9007199254740993&ids=1&sort=asc&limit=',
+    );
+    const response = await GET(request, { params: Promise.resolve({}) });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      page: 2,
+      active: true,
+      since: '2024-01-01T00:00:00.000Z',
+      id: '9007199254740993',
+      ids: [1],
+      sort: 'asc',
+      limit: null,
+    });
+  });
+
+  it('should still reject inputs that cannot be coerced', async () => {
+    const GET = createZodRoute({ coerce: true })
+      .query(filtersSchema)
+      .handler(() => ({ success: true }));
+
+    const request = new Request('http://localhost/?page=abc&active=yes&since=never&id=1.5&ids=x');
+    const response = await GET(request, { params: Promise.resolve({}) });
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.errors.map((issue: RouteValidationIssue) => issue.path[0])).toEqual([
+      'page',
+      'active',
+      'since',
+      'id',
+      'ids',
+    ]);
+  });
+
+  it('should only coerce the enabled parts of the request', async () => {
+    const POST = createZodRoute({ coerce: { params: true } })
+      .params(z.object({ id: z.number() }))
+      .body(z.object({ count: z.number() }))
+      .handler((request, context) => ({ id: context.params.id, count: context.body.count }));
+
+    const formData = new URLSearchParams({ count: '3' });
+    const request = new Request('http://localhost/', { method: 'POST', body: formData });
+    const response = await POST(request, { params: paramsToPromise({ id: '1' }) });
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.detail).toBe('Invalid body');
+
+    const coercedPOST = createZodRoute({ coerce: { params: true } })
+      .coerce({ body: true })
+      .params(z.object({ id: z.number() }))
+      .body(z.object({ count: z.number() }))
+      .handler((request, context) => ({ id: context.params.id, count: context.body.count }));
+
+    const coercedResponse = await coercedPOST(
+      new Request('http://localhost/', { method: 'POST', body: new URLSearchParams({ count: '3' }) }),
+      { params: paramsToPromise({ id: '1' }) },
+    );
+
+    expect(await coercedResponse.json()).toEqual({ id: 1, count: 3 });
+  });
+});
+
+describe('body parsers', () => {
+  it('should parse text, NDJSON and binary bodies', async () => {
+    const textPOST = createZodRoute()
+      .body(z.string())
+      .handler((request, context) => ({ body: context.body }));
+    const textResponse = await textPOST(
+      new Request('http://localhost/', { method: 'POST', headers: { 'Content-Type': 'text/csv' }, body: 'a,b' }),
+      { params: paramsToPromise({}) },
+    );
+    expect(await textResponse.json()).toEqual({ body: 'a,b' });
+
+    const ndjsonPOST = createZodRoute()
+      .body(z.array(z.object({ id: z.number() })))
+      .handler((request, context) => ({ ids: context.body.map((item) => item.id) }));
+    const ndjsonResponse = await ndjsonPOST(
+      new Request('http://localhost/', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-ndjson' },
+        body: '{"id":1}\n{"id":2}\n',
+      }),
+      { params: paramsToPromise({}) },
+    );
+    expect(await ndjsonResponse.json()).toEqual({ ids: [1, 2] });
+
+    const binaryPOST = createZodRoute()
+      .body(z.instanceof(ArrayBuffer))
+      .handler((request, context) => ({ size: context.body.byteLength }));
+    const binaryResponse = await binaryPOST(
+      new Request('http://localhost/', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: new Uint8Array([1, 2, 3]),
+      }),
+      { params: paramsToPromise({}) },
+    );
+    expect(await binaryResponse.json()).toEqual({ size: 3 });
+  });
+
+  it('should parse structured suffixes and bodies without a content type as JSON', async () => {
+    const POST = createZodRoute()
+      .body(z.object({ name: z.string() }))
+      .handler((request, context) => ({ name: context.body.name }));
+
+    const suffixResponse = await POST(
+      new Request('http://localhost/', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/merge-patch+json' },
+        body: JSON.stringify({ name: 'test' }),
+      }),
+      { params: paramsToPromise({}) },
+    );
+    expect(await suffixResponse.json()).toEqual({ name: 'test' });
+
+    const untypedRequest = new Request('http://localhost/', { method: 'POST', body: JSON.stringify({ name: 'test' }) });
+    untypedRequest.headers.delete('content-type');
+    const untypedResponse = await POST(untypedRequest, { params: paramsToPromise({}) });
+    expect(await untypedResponse.json()).toEqual({ name: 'test' });
+  });
+
+  it('should return 415 for unsupported or not accepted content types', async () => {
+    const POST = createZodRoute()
+      .body(z.object({ name: z.string() }))
+      .handler(() => ({ ok: true }));
+
+    const response = await POST(
+      new Request('http://localhost/', { method: 'POST', headers: { 'Content-Type': 'image/png' }, body: 'x' }),
+      { params: paramsToPromise({}) },
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(415);
+    expect(response.headers.get('Content-Type')).toBe('application/problem+json');
+    expect(data).toMatchObject({ title: 'Unsupported Media Type', detail: 'Unsupported content type "image/png"' });
+
+    const jsonOnlyPOST = createZodRoute()
+      .accepts('application/json')
+      .body(z.object({ name: z.string() }))
+      .handler(() => ({ ok: true }));
+
+    const formResponse = await jsonOnlyPOST(
+      new Request('http://localhost/', { method: 'POST', body: new URLSearchParams({ name: 'test' }) }),
+      { params: paramsToPromise({}) },
+    );
+    expect(formResponse.status).toBe(415);
+  });
+
+  it('should return 400 for malformed bodies', async () => {
+    const POST = createZodRoute()
+      .body(z.object({ name: z.string() }))
+      .handler(() => ({ ok: true }));
+
+    const response = await POST(
+      new Request('http://localhost/', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: '{"name":',
+      }),
+      { params: paramsToPromise({}) },
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data).toMatchObject({ title: 'Bad Request', detail: 'Malformed body' });
+  });
+
+  it('should use custom body parsers over the default ones', async () => {
+    const csvParser = async (request: Request) => (await request.text()).split(',');
+
+    const POST = createZodRoute({ bodyParsers: { 'text/csv': csvParser } })
+      .bodyParser('application/x-www-form-urlencoded', async () => ({ name: 'custom' }))
+      .body(z.union([z.array(z.string()), z.object({ name: z.string() })]))
+      .handler((request, context) => ({ body: context.body }));
+
+    const csvResponse = await POST(
+      new Request('http://localhost/', { method: 'POST', headers: { 'Content-Type': 'text/csv' }, body: 'a,b' }),
+      { params: paramsToPromise({}) },
+    );
+    expect(await csvResponse.json()).toEqual({ body: ['a', 'b'] });
+
+    const formResponse = await POST(
+      new Request('http://localhost/', { method: 'POST', body: new URLSearchParams({ name: 'test' }) }),
+      { params: paramsToPromise({}) },
+    );
+    expect(await formResponse.json()).toEqual({ body: { name: 'custom' } });
+  });
+});
+
+describe('body limits', () => {
+  it('should reject bodies over the maximum size', async () => {
+    const POST = createZodRoute({ limits: { maxBodySize: 16 } })
+      .body(z.object({ name: z.string() }))
+      .handler((request, context) => ({ name: context.body.name }));
+
+    const response = await POST(
+      new Request('http://localhost/', { method: 'POST', body: JSON.stringify({ name: 'a'.repeat(32) }) }),
+      { params: paramsToPromise({}) },
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(413);
+    expect(response.headers.get('Content-Type')).toBe('application/problem+json');
+    expect(data).toMatchObject({ title: 'Content Too Large', detail: 'Body exceeds the maximum size of 16 bytes' });
+
+    const validResponse = await POST(
+      new Request('http://localhost/', { method: 'POST', body: JSON.stringify({ name: 'a' }) }),
+      { params: paramsToPromise({}) },
+    );
+    expect(await validResponse.json()).toEqual({ name: 'a' });
+  });
+
+  it('should enforce the limit while reading bodies without a Content-Length header', async () => {
+    const POST = createZodRoute()
+      .limits({ maxBodySize: 4 })
+      .handler(() => ({ ok: true }));
+
+    let pulled = 0;
+    const body = new ReadableStream({
+      pull(controller) {
+        pulled += 1;
+        controller.enqueue(new TextEncoder().encode('chunk'));
+        if (pulled === 100) {
+          controller.close();
+        }
+      },
+    });
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      body,
+      duplex: 'half',
+    } as unknown as RequestInit);
+    const response = await POST(request, { params: paramsToPromise({}) });
+
+    expect(response.status).toBe(413);
+    expect(pulled).toBeLessThan(100);
+  });
+
+  it('should check the Content-Length header up front', async () => {
+    const POST = createZodRoute({ limits: { maxBodySize: 16 } }).handler(() => ({ ok: true }));
+
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'Content-Length': '1000' },
+      body: '{}',
+    });
+    const response = await POST(request, { params: paramsToPromise({}) });
+
+    expect(response.status).toBe(413);
+  });
+
+  it('should limit the size, count and type of uploaded files', async () => {
+    const POST = createZodRoute({ limits: { maxFileSize: 4, maxFiles: 2 } })
+      .limits({ fileTypes: ['image/*'] })
+      .handler(() => ({ ok: true }));
+
+    const upload = async (...files: File[]) => {
+      const formData = new FormData();
+      files.forEach((file) => formData.append('files', file));
+      const response = await POST(new Request('http://localhost/', { method: 'POST', body: formData }), {
+        params: paramsToPromise({}),
+      });
+      return { status: response.status, data: await response.json() };
+    };
+
+    expect((await upload(new File(['abc'], 'a.png', { type: 'image/png' }))).status).toBe(200);
+
+    const tooLarge = await upload(new File(['abcdef'], 'a.png', { type: 'image/png' }));
+    expect(tooLarge.status).toBe(413);
+    expect(tooLarge.data.detail).toBe('File "a.png" exceeds the maximum size of 4 bytes');
+
+    const tooMany = await upload(
+      new File(['a'], 'a.png', { type: 'image/png' }),
+      new File(['b'], 'b.png', { type: 'image/png' }),
+      new File(['c'], 'c.png', { type: 'image/png' }),
+    );
+    expect(tooMany.status).toBe(413);
+
+    const wrongType = await upload(new File(['abc'], 'a.txt', { type: 'text/plain' }));
+    expect(wrongType.status).toBe(415);
+  });
+
+  it('should enforce the file limits while the multipart body is streamed', async () => {
+    const POST = createZodRoute()
+      .limits({ maxFileSize: 1024, fileTypes: ['image/*'] })
+      .handler(() => ({ ok: true }));
+
+    const encoder = new TextEncoder();
+    const upload = async (type: string) => {
+      let pulled = 0;
+      const body = new ReadableStream({
+        pull(controller) {
+          pulled += 1;
+          if (pulled === 1) {
+            controller.enqueue(
+              encoder.encode(
+                `--boundary\r\nContent-Disposition: form-data; name="name"\r\n\r\navatar\r\n` +
+                  `--boundary\r\nContent-Disposition: form-data; name="file"; filename="a.png"\r\n` +
+                  `Content-Type: ${type}\r\n\r\n`,
+              ),
+            );
+          } else if (pulled < 100) {
+            controller.enqueue(new Uint8Array(512));
+          } else {
+            controller.enqueue(encoder.encode('\r\n--boundary--\r\n'));
+            controller.close();
+          }
+        },
+      });
+      const request = new Request('http://localhost/', {
+        method: 'POST',
+        headers: { 'Content-Type': 'multipart/form-data; boundary=boundary' },
+        body,
+        duplex: 'half',
+      } as unknown as RequestInit);
+      const response = await POST(request, { params: paramsToPromise({}) });
+      return { status: response.status, data: await response.json(), pulled };
+    };
+
+    const tooLarge = await upload('image/png');
+    expect(tooLarge.status).toBe(413);
+    expect(tooLarge.data.detail).toBe('File "a.png" exceeds the maximum size of 1024 bytes');
+    expect(tooLarge.pulled).toBeLessThan(10);
+
+    const wrongType = await upload('text/plain');
+    expect(wrongType.status).toBe(415);
+    expect(wrongType.pulled).toBeLessThan(10);
+  });
+});
+
+describe('method grouping', () => {
+  const createRoutes = () => {
+    const auth = vi.fn(async () => ({ userId: 'user' }));
+
+    const routes = createZodRoute()
+      .params(z.object({ id: z.string() }))
+      .use(auth)
+      .methods({
+        GET: (route) => route.handler((request, context) => ({ id: context.params.id, userId: context.data.userId })),
+        POST: (route) =>
+          route
+            .body(z.object({ name: z.string() }))
+            .handler((request, context) => ({ id: context.params.id, name: context.body.name })),
+      });
+
+    return { auth, routes };
+  };
+
+  it('should share the params and middlewares between methods', async () => {
+    const { auth, routes } = createRoutes();
+
+    const getResponse = await routes.GET(new Request('http://localhost/'), { params: paramsToPromise({ id: '1' }) });
+    expect(await getResponse.json()).toEqual({ id: '1', userId: 'user' });
+
+    const postResponse = await routes.POST(
+      new Request('http://localhost/', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'test' }),
+      }),
+      { params: paramsToPromise({ id: '1' }) },
+    );
+    expect(await postResponse.json()).toEqual({ id: '1', name: 'test' });
+    expect(auth).toHaveBeenCalledTimes(2);
+
+    expectTypeOf<RouteResult<typeof routes.GET>>().toEqualTypeOf<{ id: string; userId: string }>();
+  });
+
+  it('should generate an OPTIONS handler and respond with a 405 to other methods', async () => {
+    const { auth, routes } = createRoutes();
+
+    const optionsResponse = await routes.OPTIONS(new Request('http://localhost/', { method: 'OPTIONS' }), {
+      params: paramsToPromise({ id: '1' }),
+    });
+    expect(optionsResponse.status).toBe(204);
+    expect(optionsResponse.headers.get('Allow')).toBe('GET, POST, HEAD, OPTIONS');
+
+    const deleteResponse = await routes.DELETE(new Request('http://localhost/', { method: 'DELETE' }), {
+      params: paramsToPromise({ id: '1' }),
+    });
+    expect(deleteResponse.status).toBe(405);
+    expect(deleteResponse.headers.get('Allow')).toBe('GET, POST, HEAD, OPTIONS');
+    expect(await deleteResponse.json()).toEqual({ message: 'Method not allowed' });
+
+    // HEAD is answered by Next.js with the GET handler
+    expect(Object.keys(routes).sort()).toEqual(['DELETE', 'GET', 'OPTIONS', 'PATCH', 'POST', 'PUT']);
+    expect(auth).not.toHaveBeenCalled();
+  });
+});
+
+describe('CORS', () => {
+  it('should add the CORS headers to successful, validation error and server error responses', async () => {
+    const route = createZodRoute({ cors: { origin: ['https://app.example.com'], credentials: true } });
+
+    const POST = route.body(z.object({ name: z.string() })).handler(() => ({ ok: true }));
+    const GET = route.handler(() => {
+      throw new Error('Unexpected');
+    });
+
+    const headers = { Origin: 'https://app.example.com', 'Content-Type': 'application/json' };
+    const responses = [
+      await POST(new Request('http://localhost/', { method: 'POST', headers, body: JSON.stringify({ name: 'a' }) }), {
+        params: paramsToPromise({}),
+      }),
+      await POST(new Request('http://localhost/', { method: 'POST', headers, body: JSON.stringify({}) }), {
+        params: paramsToPromise({}),
+      }),
+      await GET(new Request('http://localhost/', { headers }), { params: paramsToPromise({}) }),
+    ];
+
+    expect(responses.map((response) => response.status)).toEqual([200, 400, 500]);
+    for (const response of responses) {
+      expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://app.example.com');
+      expect(response.headers.get('Access-Control-Allow-Credentials')).toBe('true');
+      expect(response.headers.get('Vary')).toBe('Origin');
+    }
+  });
+
+  it('should reject credentials without an explicit origin', async () => {
+    expect(() => createZodRoute({ cors: { credentials: true } })).toThrow(
+      'CORS credentials require an explicit origin',
+    );
+    expect(() => createZodRoute().cors({ origin: '*', credentials: true })).toThrow(
+      'CORS credentials require an explicit origin',
+    );
+    expect(() =>
+      createZodRoute({ cors: { credentials: true, origin: 'https://app.example.com' } }).cors(),
+    ).not.toThrow();
+
+    const GET = createZodRoute()
+      .cors({ origin: '*' })
+      .handler(() => ({ ok: true }));
+    const response = await GET(new Request('http://localhost/', { headers: { Origin: 'https://evil.com' } }), {
+      params: paramsToPromise({}),
+    });
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    expect(response.headers.has('Access-Control-Allow-Credentials')).toBe(false);
+  });
+
+  it('should only allow the safelisted methods in preflight requests of single handlers', async () => {
+    const route = createZodRoute().cors({ origin: 'https://app.example.com' });
+    const preflight = new Request('http://localhost/', {
+      method: 'OPTIONS',
+      headers: { Origin: 'https://app.example.com', 'Access-Control-Request-Method': 'DELETE' },
+    });
+
+    const GET = route.handler(() => ({ ok: true }));
+    const response = await GET(preflight, { params: paramsToPromise({}) });
+    expect(response.headers.get('Access-Control-Allow-Methods')).toBe('GET, HEAD, POST');
+
+    const DELETE = route.cors({ methods: ['DELETE'] }).handler(() => ({ ok: true }));
+    const deleteResponse = await DELETE(preflight, { params: paramsToPromise({}) });
+    expect(deleteResponse.headers.get('Access-Control-Allow-Methods')).toBe('DELETE');
+  });
+
+  it('should match origins with a pattern or a predicate', async () => {
+    const patternGET = createZodRoute()
+      .cors({ origin: /\.example\.com$/ })
+      .handler(() => ({ ok: true }));
+    const predicateGET = createZodRoute()
+      .cors({ origin: (origin) => origin.startsWith('https://') })
+      .handler(() => ({ ok: true }));
+
+    const request = (origin: string) => new Request('http://localhost/', { headers: { Origin: origin } });
+
+    const allowed = await patternGET(request('https://app.example.com'), { params: paramsToPromise({}) });
+    expect(allowed.headers.get('Access-Control-Allow-Origin')).toBe('https://app.example.com');
+
+    const rejected = await patternGET(request('https://evil.com'), { params: paramsToPromise({}) });
+    expect(rejected.status).toBe(200);
+    expect(rejected.headers.has('Access-Control-Allow-Origin')).toBe(false);
+
+    const predicateRejected = await predicateGET(request('http://app.example.com'), { params: paramsToPromise({}) });
+    expect(predicateRejected.headers.has('Access-Control-Allow-Origin')).toBe(false);
+  });
+
+  it('should answer preflight requests without running the middlewares', async () => {
+    const middleware = vi.fn(async () => ({}));
+    const routes = createZodRoute()
+      .cors({ origin: 'https://app.example.com', maxAge: 600 })
+      .use(middleware)
+      .methods({
+        GET: (route) => route.handler(() => ({ ok: true })),
+        POST: (route) => route.handler(() => ({ ok: true })),
+      });
+
+    const response = await routes.OPTIONS(
+      new Request('http://localhost/', {
+        method: 'OPTIONS',
+        headers: {
+          Origin: 'https://app.example.com',
+          'Access-Control-Request-Method': 'POST',
+          'Access-Control-Request-Headers': 'content-type, authorization',
+        },
+      }),
+      { params: paramsToPromise({}) },
+    );
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://app.example.com');
+    expect(response.headers.get('Access-Control-Allow-Methods')).toBe('GET, POST, HEAD, OPTIONS');
+    expect(response.headers.get('Access-Control-Allow-Headers')).toBe('content-type, authorization');
+    expect(response.headers.get('Access-Control-Max-Age')).toBe('600');
+    expect(middleware).not.toHaveBeenCalled();
+
+    const notAllowed = await routes.DELETE(
+      new Request('http://localhost/', { method: 'DELETE', headers: { Origin: 'https://app.example.com' } }),
+      { params: paramsToPromise({}) },
+    );
+    expect(notAllowed.status).toBe(405);
+    expect(notAllowed.headers.get('Access-Control-Allow-Origin')).toBe('https://app.example.com');
+  });
+
+  it('should copy responses with immutable headers', async () => {
+    const GET = createZodRoute()
+      .cors()
+      .handler(() => Response.redirect('http://localhost/other', 302));
+
+    const response = await GET(new Request('http://localhost/', { headers: { Origin: 'https://app.example.com' } }), {
+      params: paramsToPromise({}),
+    });
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get('Location')).toBe('http://localhost/other');
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+  });
+});
+
+describe('HTTP errors', () => {
+  it('should map HTTP errors thrown by the handler to their responses', async () => {
+    const handleServerError = vi.fn(() => new Response(null, { status: 500 }));
+    const GET = createZodRoute({ handleServerError }).handler(() => {
+      throw new NotFoundError('User not found', { details: { id: '1' } });
+    });
+
+    const response = await GET(new Request('http://localhost/'), { params: paramsToPromise({}) });
+
+    expect(response.status).toBe(404);
+    expect(response.headers.get('Content-Type')).toBe('application/problem+json');
+    expect(await response.json()).toEqual({
+      type: 'about:blank',
+      title: 'Not Found',
+      status: 404,
+      code: 'NOT_FOUND',
+      detail: 'User not found',
+      message: 'User not found',
+      details: { id: '1' },
+    });
+    expect(handleServerError).not.toHaveBeenCalled();
+  });
+
+  it('should map HTTP errors thrown by middlewares, with their headers', async () => {
+    const GET = createZodRoute()
+      .use(async () => {
+        throw new TooManyRequestsError(undefined, { retryAfter: 30, code: 'RATE_LIMITED' });
+      })
+      .handler(() => ({ ok: true }));
+
+    const response = await GET(new Request('http://localhost/'), { params: paramsToPromise({}) });
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('30');
+    expect(await response.json()).toMatchObject({ code: 'RATE_LIMITED', message: 'Too Many Requests' });
+  });
+
+  it('should map zod errors thrown by the handler to a 400', async () => {
+    const GET = createZodRoute().handler(() => z.object({ id: z.number() }).parse({ id: '1' }));
+
+    const response = await GET(new Request('http://localhost/'), { params: paramsToPromise({}) });
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data).toMatchObject({ code: 'VALIDATION_ERROR', message: 'Invalid data' });
+    expect(data.details[0].path).toEqual(['id']);
+  });
+
+  it('should pass the request and the route context to handleServerError', async () => {
+    const handleServerError = vi.fn(() => new Response(null, { status: 503 }));
+    const GET = createZodRoute({ handleServerError })
+      .params(z.object({ id: z.string() }))
+      .metadata({ name: 'getUser' })
+      .handler(() => {
+        throw new Error('Database unavailable');
+      });
+
+    const request = new Request('http://localhost/users/1');
+    const response = await GET(request, { params: paramsToPromise({ id: '1' }) });
+
+    expect(response.status).toBe(503);
+    expect(handleServerError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Database unavailable' }), {
+      request,
+      params: { id: '1' },
+      metadata: { name: 'getUser' },
+    });
+  });
+});
+
+describe('lifecycle hooks', () => {
+  it('should call onRequest and onSuccess with the parsed sections and the timing', async () => {
+    const onRequest = vi.fn();
+    const onSuccess = vi.fn();
+    const globalOnSuccess = vi.fn();
+
+    const POST = createZodRoute({ hooks: { onSuccess: globalOnSuccess } })
+      .hooks({ onRequest, onSuccess })
+      .params(z.object({ id: z.string() }))
+      .body(z.object({ name: z.string() }))
+      .handler((request, context) => ({ id: context.params.id }));
+
+    const request = new Request('http://localhost/?page=1', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'test' }),
+    });
+    const response = await POST(request, { params: paramsToPromise({ id: '1' }) });
+
+    expect(onRequest).toHaveBeenCalledWith(request, expect.objectContaining({ request }));
+    expect(onSuccess).toHaveBeenCalledWith(
+      response,
+      expect.objectContaining({ parse: expect.any(Number), handler: expect.any(Number) }),
+      expect.objectContaining({ params: { id: '1' }, query: { page: '1' }, body: { name: 'test' } }),
+    );
+    expect(globalOnSuccess.mock.invocationCallOrder[0]).toBeLessThan(onSuccess.mock.invocationCallOrder[0] as number);
+
+    const [, timing] = onSuccess.mock.calls[0] as [Response, RouteTiming];
+    expect(timing.total).toBeGreaterThanOrEqual(timing.parse + timing.validate + timing.handler);
+  });
+
+  it('should call onValidationError once per failing section', async () => {
+    const onValidationError = vi.fn();
+    const onError = vi.fn();
+
+    const GET = createZodRoute()
+      .hooks({ onValidationError, onError })
+      .params(z.object({ id: z.string().uuid() }))
+      .query(z.object({ page: z.string() }))
+      .handler(() => ({ ok: true }));
+
+    const response = await GET(new Request('http://localhost/'), { params: paramsToPromise({ id: '1' }) });
+
+    expect(response.status).toBe(400);
+    expect(onValidationError).toHaveBeenCalledTimes(2);
+    expect(onValidationError.mock.calls.map(([, section]) => section)).toEqual(['params', 'query']);
+    expect(onValidationError.mock.calls[0]?.[0]).toEqual([expect.objectContaining({ location: 'params' })]);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('should call onError and ignore errors thrown by hooks', async () => {
+    const onError = vi.fn();
+    const error = new Error('Unexpected');
+
+    const GET = createZodRoute()
+      .hooks({
+        onRequest: () => {
+          throw new Error('Broken logger');
+        },
+        onError,
+      })
+      .handler(() => {
+        throw error;
+      });
+
+    const request = new Request('http://localhost/');
+    const response = await GET(request, { params: paramsToPromise({}) });
+
+    expect(response.status).toBe(500);
+    expect(onError).toHaveBeenCalledWith(error, request, expect.objectContaining({ request }));
+  });
+});
+
+describe('multi-status responses', () => {
+  const createdSchema = z.object({ id: z.string() });
+  const conflictSchema = z.object({ message: z.string() });
+
+  const POST = createZodRoute()
+    .body(z.object({ id: z.string() }))
+    .responses({ 201: createdSchema, 204: z.undefined(), 409: conflictSchema })
+    .handler((request, context) => {
+      if (context.body.id === 'taken') {
+        return context.respond(409, { message: 'Already exists' });
+      }
+      if (context.body.id === 'same') {
+        return context.respond(204, undefined);
+      }
+      return context.respond(201, { id: context.body.id, extra: true } as { id: string }, {
+        headers: { Location: `/items/${context.body.id}` },
+      });
+    });
+
+  const post = (id: string) =>
+    POST(
+      new Request('http://localhost/', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id }),
+      }),
+      { params: paramsToPromise({}) },
+    );
+
+  it('should send the body with its status, validated against the schema of that status', async () => {
+    const created = await post('1');
+    expect(created.status).toBe(201);
+    expect(created.headers.get('Location')).toBe('/items/1');
+    expect(await created.json()).toEqual({ id: '1' });
+
+    const conflict = await post('taken');
+    expect(conflict.status).toBe(409);
+    expect(await conflict.json()).toEqual({ message: 'Already exists' });
+
+    const noContent = await post('same');
+    expect(noContent.status).toBe(204);
+    expect(noContent.body).toBeNull();
+  });
+
+  it('should respond with a 500 when the body does not match the schema of its status', async () => {
+    const GET = createZodRoute()
+      .responses({ 202: z.object({ jobId: z.string() }) })
+      .handler((request, context) => context.respond(202, { jobId: 1 as unknown as string }));
+
+    const response = await GET(new Request('http://localhost/'), { params: paramsToPromise({}) });
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ message: 'Invalid output' });
+  });
+
+  it('should infer the route result as a union discriminated on status', () => {
+    expectTypeOf<RouteResult<typeof POST>>().toEqualTypeOf<
+      | { status: 201; body: { id: string } }
+      | { status: 204; body: undefined }
+      | { status: 409; body: { message: string } }
+    >();
+  });
+});
+
+describe('streaming', () => {
+  const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  it('should stream validated events as Server-Sent Events', async () => {
+    const GET = createZodRoute()
+      .sse(z.object({ token: z.string() }))
+      .handler(async function* () {
+        yield { token: 'Hello', extra: true };
+        yield { token: 'world' };
+      });
+
+    const response = await GET(new Request('http://localhost/'), { params: paramsToPromise({}) });
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(await response.text()).toBe('data: {"token":"Hello"}\n\ndata: {"token":"world"}\n\n');
+    expectTypeOf<RouteResult<typeof GET>>().toEqualTypeOf<AsyncIterable<{ token: string }>>();
+  });
+
+  it('should stream events as NDJSON and end the stream with an error event for invalid events', async () => {
+    const GET = createZodRoute()
+      .stream(z.object({ progress: z.number() }))
+      .handler(async function* () {
+        yield { progress: 50 };
+        yield { progress: 'done' as unknown as number };
+        yield { progress: 100 };
+      });
+
+    const response = await GET(new Request('http://localhost/'), { params: paramsToPromise({}) });
+
+    expect(response.headers.get('Content-Type')).toBe('application/x-ndjson');
+    expect(await response.text()).toBe('{"progress":50}\n{"error":{"message":"Invalid output"}}\n');
+  });
+
+  it('should stream async iterables returned without a streaming mode as NDJSON', async () => {
+    const GET = createZodRoute().handler(async function* () {
+      yield 1;
+      yield 2;
+    });
+
+    const response = await GET(new Request('http://localhost/'), { params: paramsToPromise({}) });
+
+    expect(await response.text()).toBe('1\n2\n');
+  });
+
+  it('should report the errors thrown by the iterable', async () => {
+    const onError = vi.fn();
+    const handleServerError = vi.fn(() => new Response(null, { status: 500 }));
+    const GET = createZodRoute({ hooks: { onError }, handleServerError })
+      .sse(z.number())
+      .handler(async function* () {
+        yield 1;
+        throw new Error('Connection lost');
+      });
+
+    const response = await GET(new Request('http://localhost/'), { params: paramsToPromise({}) });
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('data: 1\n\nevent: error\ndata: {"message":"Internal server error"}\n\n');
+    // The error is reported once the stream is closed
+    await vi.waitFor(() => expect(handleServerError).toHaveBeenCalled());
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'Connection lost' }),
+      expect.any(Request),
+      expect.objectContaining({ params: {} }),
+    );
+    expect(handleServerError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'Connection lost' }),
+      expect.objectContaining({ params: {} }),
+    );
+  });
+
+  it('should send heartbeats while waiting for events', async () => {
+    const GET = createZodRoute()
+      .sse(z.string(), { heartbeat: 10 })
+      .handler(async function* () {
+        await wait(35);
+        yield 'done';
+      });
+
+    const response = await GET(new Request('http://localhost/'), { params: paramsToPromise({}) });
+    const text = await response.text();
+
+    expect(text.match(/: heartbeat\n\n/g)?.length).toBeGreaterThanOrEqual(2);
+    expect(text.endsWith('data: "done"\n\n')).toBe(true);
+  });
+
+  it('should stop the iterable when the client disconnects', async () => {
+    let stopped = false;
+    const GET = createZodRoute()
+      .sse(z.number())
+      .handler(async function* () {
+        try {
+          for (let index = 0; ; index += 1) {
+            yield index;
+            await wait(5);
+          }
+        } finally {
+          stopped = true;
+        }
+      });
+
+    const controller = new AbortController();
+    const response = await GET(new Request('http://localhost/', { signal: controller.signal }), {
+      params: paramsToPromise({}),
+    });
+
+    const reader = (response.body as NonNullable<Response['body']>).getReader();
+    await reader.read();
+    controller.abort();
+    await wait(20);
+
+    expect(stopped).toBe(true);
+    expect((await reader.read()).done).toBe(true);
+  });
+});
+
+describe('server actions', () => {
+  const authRoute = createZodRoute().use(async ({ next }) => {
+    return next({ context: { user: { id: 'user-1' } } });
+  });
+
+  it('should run the middlewares and the action with the validated input', async () => {
+    const createPost = authRoute
+      .body(z.object({ title: z.string().min(1) }))
+      .action(async (input, context) => ({ title: input.title, authorId: context.data.user.id }));
+
+    const result = await createPost({ title: 'Hello' });
+
+    expect(result).toEqual({ data: { title: 'Hello', authorId: 'user-1' } });
+    expectTypeOf(result.data).toEqualTypeOf<{ title: string; authorId: string } | undefined>();
+  });
+
+  it('should parse and coerce the FormData of a form', async () => {
+    const updateQuantity = createZodRoute()
+      .coerce({ body: true })
+      .body(z.object({ quantity: z.number(), tags: z.array(z.string()) }))
+      .action((input) => input);
+
+    const formData = new FormData();
+    formData.append('quantity', '3');
+    formData.append('tags', 'a');
+
+    expect(await updateQuantity(formData)).toEqual({ data: { quantity: 3, tags: ['a'] } });
+  });
+
+  it('should return the validation issues of the input', async () => {
+    const action = vi.fn();
+    const createPost = authRoute.body(z.object({ title: z.string().min(1) })).action(action);
+
+    const result = await createPost({ title: '' });
+
+    expect(action).not.toHaveBeenCalled();
+    expect(result.validationErrors).toEqual([expect.objectContaining({ location: 'body', path: ['title'] })]);
+  });
+
+  it('should validate the output and strip unknown keys', async () => {
+    const action = createZodRoute()
+      .output(z.object({ id: z.string() }))
+      .action(() => ({ id: '1', password: 'secret' }));
+
+    expect(await action({})).toEqual({ data: { id: '1' } });
+  });
+
+  it('should return the message of the response of a middleware stopping the chain', async () => {
+    const action = createZodRoute()
+      .use(async () => Response.json({ message: 'Not authenticated' }, { status: 401 }))
+      .action(() => 'never');
+
+    expect(await action({})).toEqual({ serverError: 'Not authenticated' });
+  });
+
+  it('should resolve to the data of the action when a middleware replaces the response', async () => {
+    const action = createZodRoute()
+      .use(async ({ next }) => {
+        const { response } = await next();
+        return new Response(response.body, response);
+      })
+      .action(() => 'done');
+
+    expect(await action({})).toEqual({ data: 'done' });
+  });
+
+  it('should hide the message of unexpected errors unless handled', async () => {
+    const failingRoute = createZodRoute().use(async () => ({}));
+
+    expect(await failingRoute.action(() => Promise.reject(new NotFoundError('Post not found')))({})).toEqual({
+      serverError: 'Post not found',
+    });
+    expect(await failingRoute.action(() => Promise.reject(new Error('Connection lost')))({})).toEqual({
+      serverError: 'Internal server error',
+    });
+
+    const handledAction = createZodRoute({
+      handleServerError: (error) => Response.json({ message: error.message }, { status: 500 }),
+    }).action(() => Promise.reject(new Error('Connection lost')));
+    expect(await handledAction({})).toEqual({ serverError: 'Connection lost' });
+  });
+});
+
+describe('schema extension and merge', () => {
+  const context = (params: Record<string, string>) => ({ params: Promise.resolve(params) });
+
+  it('should merge the object schemas of a base route with the extensions', async () => {
+    const orgRoute = createZodRoute()
+      .params(z.object({ orgId: z.string() }))
+      .query(z.object({ page: z.coerce.number().default(1) }));
+
+    const GET = orgRoute
+      .extendParams(z.object({ projectId: z.string().uuid() }))
+      .extendQuery(z.object({ search: z.string().optional() }))
+      .handler((request, context) => {
+        expectTypeOf(context.params).toEqualTypeOf<{ orgId: string; projectId: string }>();
+        expectTypeOf(context.query).toEqualTypeOf<{ page: number; search?: string | undefined }>();
+        return { params: context.params, query: context.query };
+      });
+
+    const response = await GET(
+      new Request('http://localhost/?search=app'),
+      context({ orgId: 'org-1', projectId: '123e4567-e89b-12d3-a456-426614174000' }),
+    );
+    expect(await response.json()).toEqual({
+      params: { orgId: 'org-1', projectId: '123e4567-e89b-12d3-a456-426614174000' },
+      query: { page: 1, search: 'app' },
+    });
+
+    const invalidResponse = await GET(new Request('http://localhost/'), context({ projectId: 'invalid' }));
+    expect((await invalidResponse.json()).errors.map((issue: RouteValidationIssue) => issue.path)).toEqual([
+      ['orgId'],
+      ['projectId'],
+    ]);
+  });
+
+  it('should intersect schemas that are not objects', async () => {
+    const POST = createZodRoute()
+      .body(z.object({ name: z.string() }).refine((body) => body.name !== 'admin', 'Reserved name'))
+      .extendBody(z.object({ email: z.string().email() }))
+      .handler((request, context) => {
+        expectTypeOf(context.body).toEqualTypeOf<{ name: string } & { email: string }>();
+        return context.body;
+      });
+
+    const post = (body: unknown) =>
+      POST(new Request('http://localhost/', { method: 'POST', body: JSON.stringify(body) }), context({}));
+
+    expect(await (await post({ name: 'John', email: 'john@example.com' })).json()).toEqual({
+      name: 'John',
+      email: 'john@example.com',
+    });
+    expect((await post({ name: 'admin', email: 'admin@example.com' })).status).toBe(400);
+    expect((await post({ name: 'John', email: 'invalid' })).status).toBe(400);
+  });
+
+  it('should combine the middlewares, schemas and options of merged routes', async () => {
+    const calls: string[] = [];
+    const authRoute = createZodRoute()
+      .use(async () => {
+        calls.push('auth');
+        return { user: { id: 'user-1' } };
+      })
+      .hooks({ onSuccess: () => void calls.push('auth hook') });
+    const tenantRoute = createZodRoute()
+      .params(z.object({ orgId: z.string() }))
+      .use(
+        async () => {
+          calls.push('tenant');
+          return { tenant: { id: 'tenant-1' } };
+        },
+        { beforeValidation: true },
+      )
+      .hooks({ onSuccess: () => void calls.push('tenant hook') });
+
+    const GET = authRoute
+      .merge(tenantRoute)
+      .extendParams(z.object({ projectId: z.string() }))
+      .handler((request, context) => {
+        calls.push('handler');
+        expectTypeOf(context.data).toEqualTypeOf<{ user: { id: string } } & { tenant: { id: string } }>();
+        return { userId: context.data.user.id, tenantId: context.data.tenant.id, params: context.params };
+      });
+
+    const response = await GET(new Request('http://localhost/'), context({ orgId: 'org-1', projectId: 'p-1' }));
+
+    expect(await response.json()).toEqual({
+      userId: 'user-1',
+      tenantId: 'tenant-1',
+      params: { orgId: 'org-1', projectId: 'p-1' },
+    });
+    expect(calls).toEqual(['auth', 'tenant', 'handler', 'auth hook', 'tenant hook']);
+
+    // The tenant middleware still runs before validation
+    calls.length = 0;
+    const invalidResponse = await GET(new Request('http://localhost/'), context({}));
+    expect(invalidResponse.status).toBe(400);
+    expect(calls).toEqual(['auth', 'tenant']);
+  });
+
+  it('should only merge routes whose middlewares accept the metadata', () => {
+    const authRoute = createZodRoute().use(async () => ({ user: { id: 'user-1' } }));
+    const roleRoute = createZodRoute({ metadataSchema: z.object({ role: z.string() }) }).use(async ({ metadata }) => ({
+      role: metadata.role,
+    }));
+    const scopeRoute = createZodRoute({ metadataSchema: z.object({ scope: z.string() }) });
+
+    expectTypeOf(roleRoute.merge(authRoute).metadataValue).toEqualTypeOf<{ role: string }>();
+    expectTypeOf(roleRoute.merge(roleRoute).metadataValue).toEqualTypeOf<{ role: string }>();
+    // @ts-expect-error the middlewares of the merged route expect a role
+    authRoute.merge(roleRoute);
+    // @ts-expect-error the middlewares of the merged route expect a scope
+    roleRoute.merge(scopeRoute);
+  });
+});
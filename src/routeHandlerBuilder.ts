@@ -1,21 +1,197 @@
 // eslint-disable-next-line import/no-named-as-default
-import z from 'zod';
+import z, { ZodError } from 'zod';
 
-import { HandlerFunction, HandlerServerErrorFn, OriginalRouteHandler } from './types';
+import { BodyLimits, BodyParser, defaultBodyParsers, parseBody } from './bodyParsers';
+import { CacheOptions, handleCachedRequest } from './cache';
+import { CoerceOptions, coerceValue, resolveCoerceOptions } from './coerce';
+import { CorsOptions, applyCorsHeaders, createPreflightResponse, isPreflightRequest, resolveCorsOptions } from './cors';
+import {
+  BadRequestError,
+  GatewayTimeoutError,
+  HttpError,
+  RouteValidationError,
+  RouteValidationIssue,
+  RouteValidationLocation,
+  getStatusTitle,
+  toValidationIssues,
+} from './errors';
+import { RouteHookContext, RouteHooks, RouteTiming, callHooks } from './hooks';
+import {
+  IdempotencyOptions,
+  IdempotencyStore,
+  createMemoryIdempotencyStore,
+  handleIdempotentRequest,
+} from './idempotency';
+import {
+  PaginationMode,
+  PaginationOptions,
+  PaginationQuerySchema,
+  createPaginatedEnvelope,
+  createPaginatedSchema,
+  createPaginationQuerySchema,
+  decodePaginationQuery,
+} from './pagination';
+import { ArrayParsing, parseEntries } from './parseEntries';
+import { StreamOptions, createStreamResponse, isAsyncIterable } from './stream';
+import { TimeoutOptions, runWithTimeout } from './timeout';
+import {
+  ActionFunction,
+  ActionOptions,
+  ActionResult,
+  EventStreamSchema,
+  ExtendSchema,
+  FormatValidationErrorFn,
+  HandlerFunction,
+  HandlerOutputErrorFn,
+  HandlerServerErrorFn,
+  HttpMethod,
+  InferOutput,
+  InferOutputInput,
+  OriginalRouteHandler,
+  PaginatedSchema,
+  ResponseSchemas,
+  RouteHandlerBuilderConfig,
+  RouteOpenApiOptions,
+  ServerAction,
+  StatusResponse,
+} from './types';
+import { extendSchema, httpMethods, parseCookies } from './utils';
 
-type Middleware<TContext = Record<string, unknown>, TReturnType = Record<string, unknown>> = (opts: {
+type Middleware<TContext = Record<string, unknown>, TMetadata = unknown> = (opts: {
   request: Request;
-  context?: TContext;
-}) => Promise<TReturnType>;
+  context: TContext;
+  metadata: TMetadata;
+  next: MiddlewareNextFn;
+}) => Promise<unknown>;
+
+/**
+ * Result of the `next` function, holding the response produced by the rest of the chain.
+ * Return it from the middleware, after changing the response if needed.
+ */
+export type MiddlewareResult<TNextContext> = {
+  response: Response;
+  context: TNextContext;
+};
+
+/**
+ * Run the rest of the middleware chain and the handler, adding `context` to the context data.
+ */
+// eslint-disable-next-line @typescript-eslint/ban-types
+export type MiddlewareNextFn = <TNextContext = {}>(opts?: {
+  context?: TNextContext;
+}) => Promise<MiddlewareResult<TNextContext>>;
 
 /**
  * Type of the middleware function passed to a safe action client.
+ *
+ * A middleware can either:
+ * - return an object that is merged into the context data
+ * - return a `Response` to stop the chain early
+ * - call `next` to wrap the rest of the chain and return its result
  */
-export type MiddlewareFn<TContext, TReturnType> = {
-  (opts: { context: TContext; request: Request }): Promise<TReturnType>;
+export type MiddlewareFn<TContext, TReturnType, TMetadata = unknown> = {
+  (opts: {
+    context: TContext;
+    request: Request;
+    metadata: TMetadata;
+    next: MiddlewareNextFn;
+  }): Promise<TReturnType | MiddlewareResult<TReturnType> | Response>;
 };
 
-export class InternalRouteHandlerError extends Error {}
+/**
+ * Key of the context data stubbed by `invokeRoute` from `next-zod-route/testing`, set on the context given to the
+ * route handler. The middlewares are skipped and the handler receives this data instead, Next.js never sets it.
+ */
+export const stubbedDataKey = Symbol.for('next-zod-route.stubbedData');
+
+/**
+ * Execute the middlewares as an onion around `run`, validating the input once the chain reaches `validationIndex`
+ */
+async function runMiddlewares<TContext, TMetadata>({
+  middlewares,
+  validationIndex,
+  request,
+  metadata,
+  validate,
+  run,
+  context = {} as TContext,
+}: {
+  middlewares: Middleware<TContext, TMetadata>[];
+  validationIndex: number;
+  request: Request;
+  metadata: TMetadata;
+  validate: () => Promise<void>;
+  run: (context: TContext) => Promise<Response>;
+  /** The initial context data */
+  context?: TContext;
+}): Promise<Response> {
+  const dispatch = async (index: number, middlewareContext: TContext): Promise<Response> => {
+    if (index === validationIndex) {
+      await validate();
+    }
+
+    const middleware = middlewares[index];
+    if (!middleware) {
+      return run(middlewareContext);
+    }
+
+    let nextCalled = false;
+    let nextResult: MiddlewareResult<unknown> | undefined;
+    const next: MiddlewareNextFn = async <TNextContext>(opts?: { context?: TNextContext }) => {
+      if (nextCalled) {
+        throw new Error('next() called multiple times in the same middleware');
+      }
+      nextCalled = true;
+
+      const response = await dispatch(index + 1, { ...middlewareContext, ...opts?.context });
+      const result: MiddlewareResult<TNextContext> = { response, context: (opts?.context ?? {}) as TNextContext };
+      nextResult = result;
+      return result;
+    };
+
+    const result = await middleware({ request, context: middlewareContext, metadata, next });
+
+    // The middleware stopped the chain or replaced the final response
+    if (result instanceof Response) {
+      return result;
+    }
+
+    if (nextCalled) {
+      if (!nextResult) {
+        throw new Error('The middleware must await next() before returning');
+      }
+      return nextResult.response;
+    }
+
+    // The middleware returned data to merge into the context
+    return dispatch(index + 1, { ...middlewareContext, ...(result as object) });
+  };
+
+  return dispatch(0, context);
+}
+
+/**
+ * Read the message of an error response, falling back to the title of its status
+ */
+async function getResponseMessage(response: Response): Promise<string> {
+  try {
+    const body: unknown = await response.json();
+    if (typeof body === 'object' && body !== null && 'message' in body && typeof body.message === 'string') {
+      return body.message;
+    }
+  } catch {
+    // The body isn't JSON
+  }
+  return getStatusTitle(response.status);
+}
+
+/**
+ * Route handlers returned by `methods`, with a 405 handler for every method that isn't defined.
+ * HEAD is left to Next.js, which answers it with the GET handler, when only GET is defined.
+ */
+export type MethodHandlers<TMethods> = {
+  [K in keyof TMethods]: TMethods[K] extends (...args: never[]) => infer THandler ? THandler : never;
+} & Record<Exclude<HttpMethod, keyof TMethods | ('GET' extends keyof TMethods ? 'HEAD' : never)>, OriginalRouteHandler>;
 
 export class RouteHandlerBuilder<
   TParams extends z.Schema = z.Schema,
@@ -24,15 +200,31 @@ export class RouteHandlerBuilder<
   // eslint-disable-next-line @typescript-eslint/ban-types
   TContext = {},
   TMetadata = unknown,
+  TOutput extends z.Schema | undefined = undefined,
+  THeaders extends z.Schema = z.Schema,
+  TCookies extends z.Schema = z.Schema,
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  TResponses extends ResponseSchemas = {},
 > {
-  readonly config: {
-    paramsSchema: TParams;
-    querySchema: TQuery;
-    bodySchema: TBody;
-  };
+  readonly config: RouteHandlerBuilderConfig<TParams, TQuery, TBody, TOutput, THeaders, TCookies, TResponses>;
   readonly middlewares: Middleware<TContext, TMetadata>[];
+  readonly validationIndex: number;
   readonly handleServerError?: HandlerServerErrorFn;
+  readonly handleOutputValidationError?: HandlerOutputErrorFn;
+  readonly formatValidationError?: FormatValidationErrorFn;
+  readonly arrayParsing?: ArrayParsing;
+  readonly bodyParsers: Record<string, BodyParser>;
+  readonly bodyLimits: BodyLimits;
+  readonly coerceOptions: Partial<Record<RouteValidationLocation, boolean>>;
+  readonly metadataSchema?: z.Schema;
   readonly metadataValue: TMetadata;
+  readonly openapiOptions?: RouteOpenApiOptions;
+  readonly corsOptions?: CorsOptions;
+  readonly lifecycleHooks: RouteHooks[];
+  readonly idempotencyOptions?: IdempotencyOptions<TContext> & { store: IdempotencyStore };
+  readonly cacheOptions?: CacheOptions<TContext>;
+  readonly paginationOptions?: PaginationOptions;
+  readonly timeoutOptions?: TimeoutOptions;
   readonly contextType!: TContext;
 
   constructor({
@@ -40,23 +232,70 @@ export class RouteHandlerBuilder<
       paramsSchema: undefined as unknown as TParams,
       querySchema: undefined as unknown as TQuery,
       bodySchema: undefined as unknown as TBody,
+      outputSchema: undefined as unknown as TOutput,
+      headersSchema: undefined as unknown as THeaders,
+      cookiesSchema: undefined as unknown as TCookies,
     },
     middlewares = [],
+    validationIndex = 0,
     handleServerError,
+    handleOutputValidationError,
+    formatValidationError,
+    arrayParsing,
+    bodyParsers = {},
+    bodyLimits = {},
+    coerceOptions = {},
+    metadataSchema,
+    metadataValue,
+    openapiOptions,
+    corsOptions,
+    lifecycleHooks = [],
+    idempotencyOptions,
+    cacheOptions,
+    paginationOptions,
+    timeoutOptions,
     contextType,
   }: {
-    config?: {
-      paramsSchema: TParams;
-      querySchema: TQuery;
-      bodySchema: TBody;
-    };
+    config?: RouteHandlerBuilderConfig<TParams, TQuery, TBody, TOutput, THeaders, TCookies, TResponses>;
     middlewares?: Middleware<TContext, TMetadata>[];
+    validationIndex?: number;
     handleServerError?: HandlerServerErrorFn;
+    handleOutputValidationError?: HandlerOutputErrorFn;
+    formatValidationError?: FormatValidationErrorFn;
+    arrayParsing?: ArrayParsing;
+    bodyParsers?: Record<string, BodyParser>;
+    bodyLimits?: BodyLimits;
+    coerceOptions?: Partial<Record<RouteValidationLocation, boolean>>;
+    metadataSchema?: z.Schema;
+    metadataValue?: TMetadata;
+    openapiOptions?: RouteOpenApiOptions;
+    corsOptions?: CorsOptions;
+    lifecycleHooks?: RouteHooks[];
+    idempotencyOptions?: IdempotencyOptions<TContext> & { store: IdempotencyStore };
+    cacheOptions?: CacheOptions<TContext>;
+    paginationOptions?: PaginationOptions;
+    timeoutOptions?: TimeoutOptions;
     contextType: TContext;
   }) {
     this.config = config;
     this.middlewares = middlewares;
+    this.validationIndex = validationIndex;
     this.handleServerError = handleServerError;
+    this.handleOutputValidationError = handleOutputValidationError;
+    this.formatValidationError = formatValidationError;
+    this.arrayParsing = arrayParsing;
+    this.bodyParsers = bodyParsers;
+    this.bodyLimits = bodyLimits;
+    this.coerceOptions = coerceOptions;
+    this.metadataSchema = metadataSchema;
+    this.metadataValue = metadataValue as TMetadata;
+    this.openapiOptions = openapiOptions;
+    this.corsOptions = corsOptions;
+    this.lifecycleHooks = lifecycleHooks;
+    this.idempotencyOptions = idempotencyOptions;
+    this.cacheOptions = cacheOptions;
+    this.paginationOptions = paginationOptions;
+    this.timeoutOptions = timeoutOptions;
     this.contextType = contextType as TContext;
   }
 
@@ -66,46 +305,636 @@ export class RouteHandlerBuilder<
    * @returns A new instance of the RouteHandlerBuilder
    */
   params<T extends z.Schema>(schema: T) {
-    return new RouteHandlerBuilder<T, TQuery, TBody, TContext, TMetadata>({
+    return new RouteHandlerBuilder<T, TQuery, TBody, TContext, TMetadata, TOutput, THeaders, TCookies, TResponses>({
       ...this,
       config: { ...this.config, paramsSchema: schema },
     });
   }
 
+  /**
+   * Extend the schema for the params defined before, e.g. by a base route shared by several routes.
+   * Object schemas are merged, with the keys of the new schema taking precedence, other schemas are intersected.
+   * @param schema - The schema extending the params
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  extendParams<T extends z.Schema>(schema: T) {
+    return new RouteHandlerBuilder<
+      ExtendSchema<TParams, T>,
+      TQuery,
+      TBody,
+      TContext,
+      TMetadata,
+      TOutput,
+      THeaders,
+      TCookies,
+      TResponses
+    >({
+      ...this,
+      config: {
+        ...this.config,
+        paramsSchema: extendSchema(this.config.paramsSchema, schema) as ExtendSchema<TParams, T>,
+      },
+    });
+  }
+
   /**
    * Define the schema for the query
    * @param schema - The schema for the query
    * @returns A new instance of the RouteHandlerBuilder
    */
   query<T extends z.Schema>(schema: T) {
-    return new RouteHandlerBuilder<TParams, T, TBody, TContext, TMetadata>({
+    return new RouteHandlerBuilder<TParams, T, TBody, TContext, TMetadata, TOutput, THeaders, TCookies, TResponses>({
       ...this,
       config: { ...this.config, querySchema: schema },
     });
   }
 
+  /**
+   * Extend the schema for the query defined before, e.g. by a base route shared by several routes.
+   * Object schemas are merged, with the keys of the new schema taking precedence, other schemas are intersected.
+   * @param schema - The schema extending the query
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  extendQuery<T extends z.Schema>(schema: T) {
+    return new RouteHandlerBuilder<
+      TParams,
+      ExtendSchema<TQuery, T>,
+      TBody,
+      TContext,
+      TMetadata,
+      TOutput,
+      THeaders,
+      TCookies,
+      TResponses
+    >({
+      ...this,
+      config: { ...this.config, querySchema: extendSchema(this.config.querySchema, schema) as ExtendSchema<TQuery, T> },
+    });
+  }
+
   /**
    * Define the schema for the body
    * @param schema - The schema for the body
    * @returns A new instance of the RouteHandlerBuilder
    */
   body<T extends z.Schema>(schema: T) {
-    return new RouteHandlerBuilder<TParams, TQuery, T, TContext, TMetadata>({
+    return new RouteHandlerBuilder<TParams, TQuery, T, TContext, TMetadata, TOutput, THeaders, TCookies, TResponses>({
       ...this,
       config: { ...this.config, bodySchema: schema },
     });
   }
 
+  /**
+   * Extend the schema for the body defined before, e.g. by a base route shared by several routes.
+   * Object schemas are merged, with the keys of the new schema taking precedence, other schemas are intersected.
+   * @param schema - The schema extending the body
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  extendBody<T extends z.Schema>(schema: T) {
+    return new RouteHandlerBuilder<
+      TParams,
+      TQuery,
+      ExtendSchema<TBody, T>,
+      TContext,
+      TMetadata,
+      TOutput,
+      THeaders,
+      TCookies,
+      TResponses
+    >({
+      ...this,
+      config: { ...this.config, bodySchema: extendSchema(this.config.bodySchema, schema) as ExtendSchema<TBody, T> },
+    });
+  }
+
+  /**
+   * Define the schema for the headers
+   * @param schema - The schema for the headers, header names are lowercased
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  headers<T extends z.Schema>(schema: T) {
+    return new RouteHandlerBuilder<TParams, TQuery, TBody, TContext, TMetadata, TOutput, T, TCookies, TResponses>({
+      ...this,
+      config: { ...this.config, headersSchema: schema },
+    });
+  }
+
+  /**
+   * Define the schema for the cookies
+   * @param schema - The schema for the cookies parsed from the Cookie header
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  cookies<T extends z.Schema>(schema: T) {
+    return new RouteHandlerBuilder<TParams, TQuery, TBody, TContext, TMetadata, TOutput, THeaders, T, TResponses>({
+      ...this,
+      config: { ...this.config, cookiesSchema: schema },
+    });
+  }
+
+  /**
+   * Define the schema for the output returned by the handler
+   * @param schema - The schema for the output, unknown keys are stripped before sending the response
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  output<T extends z.Schema>(schema: T) {
+    return new RouteHandlerBuilder<TParams, TQuery, TBody, TContext, TMetadata, T, THeaders, TCookies, TResponses>({
+      ...this,
+      config: { ...this.config, outputSchema: schema },
+    });
+  }
+
+  /**
+   * Restrict the content types accepted for the body, other content types are rejected with a 415 response
+   * @param contentTypes - The accepted media types, e.g. `application/json` or `text/*`
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  accepts(...contentTypes: string[]) {
+    return new RouteHandlerBuilder<
+      TParams,
+      TQuery,
+      TBody,
+      TContext,
+      TMetadata,
+      TOutput,
+      THeaders,
+      TCookies,
+      TResponses
+    >({
+      ...this,
+      config: { ...this.config, contentTypes },
+    });
+  }
+
+  /**
+   * Register a body parser for a content type, replacing the default parser of that content type
+   * @param contentType - The media type parsed by the parser, `type/*` and `*\/*` wildcards are supported
+   * @param parser - The function parsing the request body
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  bodyParser(contentType: string, parser: BodyParser) {
+    return new RouteHandlerBuilder<
+      TParams,
+      TQuery,
+      TBody,
+      TContext,
+      TMetadata,
+      TOutput,
+      THeaders,
+      TCookies,
+      TResponses
+    >({
+      ...this,
+      bodyParsers: { ...this.bodyParsers, [contentType.toLowerCase()]: parser },
+    });
+  }
+
+  /**
+   * Limit the size of the body and of the uploaded files, merged over the limits given to `createZodRoute`
+   * @param limits - The maximum body size, file size, file count and accepted file types
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  limits(limits: BodyLimits) {
+    return new RouteHandlerBuilder<
+      TParams,
+      TQuery,
+      TBody,
+      TContext,
+      TMetadata,
+      TOutput,
+      THeaders,
+      TCookies,
+      TResponses
+    >({
+      ...this,
+      bodyLimits: { ...this.bodyLimits, ...limits },
+    });
+  }
+
+  /**
+   * Stream the events returned by the handler as Server-Sent Events (`text/event-stream`)
+   * @param schema - The schema validating each event
+   * @param options - The interval between heartbeats, 15 seconds by default
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  sse<T extends z.Schema>(schema: T, options?: StreamOptions) {
+    return new RouteHandlerBuilder<
+      TParams,
+      TQuery,
+      TBody,
+      TContext,
+      TMetadata,
+      EventStreamSchema<T>,
+      THeaders,
+      TCookies,
+      TResponses
+    >({
+      ...this,
+      config: { ...this.config, outputSchema: schema as EventStreamSchema<T>, stream: { ...options, format: 'sse' } },
+    });
+  }
+
+  /**
+   * Stream the events returned by the handler as newline-delimited JSON (`application/x-ndjson`)
+   * @param schema - The schema validating each event, events are not validated when omitted
+   * @param options - The interval between heartbeats, disabled by default
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  stream<T extends z.Schema = z.ZodUnknown>(schema?: T, options?: StreamOptions) {
+    return new RouteHandlerBuilder<
+      TParams,
+      TQuery,
+      TBody,
+      TContext,
+      TMetadata,
+      EventStreamSchema<T>,
+      THeaders,
+      TCookies,
+      TResponses
+    >({
+      ...this,
+      config: {
+        ...this.config,
+        outputSchema: (schema ?? z.unknown()) as EventStreamSchema<T>,
+        stream: { ...options, format: 'ndjson' },
+      },
+    });
+  }
+
+  /**
+   * Paginate the items returned by the handler. The `limit`, and `cursor` or `offset`, fields are added to the query,
+   * and the page returned by the handler is sent in a `{ items, nextCursor | nextOffset, total }` envelope
+   * with the `Link` header of the other pages.
+   * In cursor mode, the handler returns the value identifying the next page as `nextCursor`, sent to the client
+   * as an opaque string (signed when a secret is given) and decoded back into `context.query.cursor`.
+   * @param options - The pagination mode, the default and maximum limits, and the schemas of the items and the cursor
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  paginate<TMode extends PaginationMode, TItem extends z.Schema = z.ZodUnknown, TCursor extends z.Schema = z.ZodString>(
+    options: PaginationOptions<TMode, TItem, TCursor>,
+  ) {
+    type PaginatedQuery = ExtendSchema<TQuery, PaginationQuerySchema<TMode, TCursor>>;
+    return new RouteHandlerBuilder<
+      TParams,
+      PaginatedQuery,
+      TBody,
+      TContext,
+      TMetadata,
+      PaginatedSchema<TItem, TMode, TCursor>,
+      THeaders,
+      TCookies,
+      TResponses
+    >({
+      ...this,
+      config: {
+        ...this.config,
+        querySchema: extendSchema(this.config.querySchema, createPaginationQuerySchema(options)) as PaginatedQuery,
+        outputSchema: createPaginatedSchema(options) as unknown as PaginatedSchema<TItem, TMode, TCursor>,
+      },
+      paginationOptions: options,
+    });
+  }
+
+  /**
+   * Define the schemas of the responses sent with `context.respond`, keyed by status
+   * @param schemas - The schema of the body of each status, e.g. `{ 201: createdSchema, 404: errorSchema }`
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  responses<T extends ResponseSchemas>(schemas: T) {
+    type MergedResponses = Omit<TResponses, keyof T> & T;
+    return new RouteHandlerBuilder<
+      TParams,
+      TQuery,
+      TBody,
+      TContext,
+      TMetadata,
+      TOutput,
+      THeaders,
+      TCookies,
+      MergedResponses
+    >({
+      ...this,
+      config: { ...this.config, responseSchemas: { ...this.config.responseSchemas, ...schemas } as MergedResponses },
+    });
+  }
+
+  /**
+   * Coerce the string inputs of the request to the types expected by the schemas before validation
+   * @param options - `true` to coerce every part of the request, or the parts to coerce, e.g. `{ query: true }`
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  coerce(options: CoerceOptions = true) {
+    return new RouteHandlerBuilder<
+      TParams,
+      TQuery,
+      TBody,
+      TContext,
+      TMetadata,
+      TOutput,
+      THeaders,
+      TCookies,
+      TResponses
+    >({
+      ...this,
+      coerceOptions: resolveCoerceOptions(options, this.coerceOptions),
+    });
+  }
+
+  /**
+   * Define the metadata of the route, passed to every middleware and to the handler
+   * @param value - The metadata, validated against the metadata schema given to `createZodRoute`
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  metadata(value: TMetadata) {
+    return new RouteHandlerBuilder<
+      TParams,
+      TQuery,
+      TBody,
+      TContext,
+      TMetadata,
+      TOutput,
+      THeaders,
+      TCookies,
+      TResponses
+    >({
+      ...this,
+      metadataValue: value,
+    });
+  }
+
+  /**
+   * Describe the route in the OpenAPI document generated by `generateOpenApiDocument`
+   * @param options - The summary, description, tags and operation id of the route
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  openapi(options: RouteOpenApiOptions) {
+    return new RouteHandlerBuilder<
+      TParams,
+      TQuery,
+      TBody,
+      TContext,
+      TMetadata,
+      TOutput,
+      THeaders,
+      TCookies,
+      TResponses
+    >({
+      ...this,
+      openapiOptions: { ...this.openapiOptions, ...options },
+    });
+  }
+
+  /**
+   * Enable CORS: preflight requests are answered and the CORS headers are added to every response, errors included
+   * @param options - The allowed origins, methods and headers, merged over the options given to `createZodRoute`
+   * @returns A new instance of the RouteHandlerBuilder
+   * @throws Error when credentials are allowed without an explicit origin
+   */
+  cors(options: CorsOptions = {}) {
+    return new RouteHandlerBuilder<
+      TParams,
+      TQuery,
+      TBody,
+      TContext,
+      TMetadata,
+      TOutput,
+      THeaders,
+      TCookies,
+      TResponses
+    >({
+      ...this,
+      corsOptions: resolveCorsOptions(options, this.corsOptions),
+    });
+  }
+
+  /**
+   * Run the handler once per `Idempotency-Key`, replaying the stored response for the retries of the request.
+   * A key reused for a different request is rejected with a 422, and a retry while the request is in flight with a 409.
+   * @param options - The scope of the keys, the store of the responses, an in-memory store by default, and how long
+   * they are kept
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  idempotent(options: IdempotencyOptions<TContext> = {}) {
+    return new RouteHandlerBuilder<
+      TParams,
+      TQuery,
+      TBody,
+      TContext,
+      TMetadata,
+      TOutput,
+      THeaders,
+      TCookies,
+      TResponses
+    >({
+      ...this,
+      idempotencyOptions: { ...options, store: options.store ?? createMemoryIdempotencyStore() },
+    });
+  }
+
+  /**
+   * Add the Cache-Control, Vary, ETag and Last-Modified headers to the successful responses of GET requests,
+   * and answer the conditional requests (`If-None-Match`, `If-Modified-Since`) with a 304.
+   * Pass a `store` to cache the responses on the server, skipping the handler for the same params and query.
+   * @param options - The lifetime of the response, how its ETag is computed, the headers it varies on and the scope
+   * of the responses in the store
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  cache(options: CacheOptions<TContext> = {}) {
+    return new RouteHandlerBuilder<
+      TParams,
+      TQuery,
+      TBody,
+      TContext,
+      TMetadata,
+      TOutput,
+      THeaders,
+      TCookies,
+      TResponses
+    >({
+      ...this,
+      cacheOptions: options,
+    });
+  }
+
+  /**
+   * Give the middlewares and the handler a deadline, after which a `504` is sent. The handler receives `context.signal`,
+   * aborted on timeout or when the client disconnects, to cancel its `fetch` and database calls.
+   * @param ms - The deadline in milliseconds
+   * @param options - Build the response sent on timeout, a `504` problem response by default
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  timeout(ms: number, options?: Omit<TimeoutOptions, 'ms'>) {
+    return new RouteHandlerBuilder<
+      TParams,
+      TQuery,
+      TBody,
+      TContext,
+      TMetadata,
+      TOutput,
+      THeaders,
+      TCookies,
+      TResponses
+    >({
+      ...this,
+      timeoutOptions: { onTimeout: this.timeoutOptions?.onTimeout, ...options, ms },
+    });
+  }
+
+  /**
+   * Add lifecycle hooks, called after the hooks given to `createZodRoute` and the ones added before
+   * @param hooks - The onRequest, onValidationError, onSuccess and onError hooks
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  hooks(hooks: RouteHooks) {
+    return new RouteHandlerBuilder<
+      TParams,
+      TQuery,
+      TBody,
+      TContext,
+      TMetadata,
+      TOutput,
+      THeaders,
+      TCookies,
+      TResponses
+    >({
+      ...this,
+      lifecycleHooks: [...this.lifecycleHooks, hooks],
+    });
+  }
+
   /**
    * Add a middleware to the route handler
    * @param middleware - The middleware function to be executed
+   * @param options - Set `beforeValidation` to run the middleware, and the ones added before it, before the request is parsed and validated
    * @returns A new instance of the RouteHandlerBuilder
    */
-  use<TNewContext>(middleware: MiddlewareFn<TContext, TNewContext>) {
+  use<TNewContext>(
+    middleware: MiddlewareFn<TContext, TNewContext, TMetadata>,
+    options?: { beforeValidation?: boolean },
+  ) {
     type MergedContext = TContext & TNewContext;
-    return new RouteHandlerBuilder<TParams, TQuery, TBody, MergedContext, TMetadata>({
+    return new RouteHandlerBuilder<
+      TParams,
+      TQuery,
+      TBody,
+      MergedContext,
+      TMetadata,
+      TOutput,
+      THeaders,
+      TCookies,
+      TResponses
+    >({
       ...this,
       middlewares: [...this.middlewares, middleware],
+      validationIndex: options?.beforeValidation ? this.middlewares.length + 1 : this.validationIndex,
+      contextType: {} as MergedContext,
+    });
+  }
+
+  /**
+   * Combine the route with another one, e.g. defined in a shared module: its middlewares run after the ones added before,
+   * its schemas extend the ones defined before and its options take precedence
+   * @param other - The route to merge
+   * @returns A new instance of the RouteHandlerBuilder
+   *
+   * @example
+   * ```ts
+   * // lib/routes.ts
+   * export const authRoute = createZodRoute().use(authMiddleware);
+   * export const tenantRoute = createZodRoute().params(z.object({ orgId: z.string() })).use(tenantMiddleware);
+   *
+   * // app/api/orgs/[orgId]/projects/route.ts
+   * export const GET = authRoute.merge(tenantRoute).handler((request, context) => {
+   *   const { user, tenant } = context.data;
+   * });
+   * ```
+   */
+  merge<
+    TOtherParams extends z.Schema,
+    TOtherQuery extends z.Schema,
+    TOtherBody extends z.Schema,
+    TOtherContext,
+    TOtherMetadata,
+    TOtherOutput extends z.Schema | undefined,
+    TOtherHeaders extends z.Schema,
+    TOtherCookies extends z.Schema,
+    TOtherResponses extends ResponseSchemas,
+  >(
+    other: RouteHandlerBuilder<
+      TOtherParams,
+      TOtherQuery,
+      TOtherBody,
+      TOtherContext,
+      // Metadata is kept from this route, the middlewares of the other route receive it so it must satisfy theirs
+      TMetadata extends TOtherMetadata ? TOtherMetadata : never,
+      TOtherOutput,
+      TOtherHeaders,
+      TOtherCookies,
+      TOtherResponses
+    >,
+  ) {
+    type MergedContext = TContext & TOtherContext;
+    type MergedOutput = undefined extends TOtherOutput ? TOutput : TOtherOutput;
+    type MergedResponses = TResponses & TOtherResponses;
+
+    const extend = (base: z.Schema | undefined, extension: z.Schema | undefined) =>
+      extension ? extendSchema(base, extension) : base;
+
+    return new RouteHandlerBuilder<
+      ExtendSchema<TParams, TOtherParams>,
+      ExtendSchema<TQuery, TOtherQuery>,
+      ExtendSchema<TBody, TOtherBody>,
+      MergedContext,
+      TMetadata,
+      MergedOutput,
+      ExtendSchema<THeaders, TOtherHeaders>,
+      ExtendSchema<TCookies, TOtherCookies>,
+      MergedResponses
+    >({
+      ...this,
+      config: {
+        paramsSchema: extend(this.config.paramsSchema, other.config.paramsSchema) as ExtendSchema<
+          TParams,
+          TOtherParams
+        >,
+        querySchema: extend(this.config.querySchema, other.config.querySchema) as ExtendSchema<TQuery, TOtherQuery>,
+        bodySchema: extend(this.config.bodySchema, other.config.bodySchema) as ExtendSchema<TBody, TOtherBody>,
+        headersSchema: extend(this.config.headersSchema, other.config.headersSchema) as ExtendSchema<
+          THeaders,
+          TOtherHeaders
+        >,
+        cookiesSchema: extend(this.config.cookiesSchema, other.config.cookiesSchema) as ExtendSchema<
+          TCookies,
+          TOtherCookies
+        >,
+        outputSchema: (other.config.outputSchema ?? this.config.outputSchema) as MergedOutput,
+        contentTypes: other.config.contentTypes ?? this.config.contentTypes,
+        stream: other.config.stream ?? this.config.stream,
+        responseSchemas: { ...this.config.responseSchemas, ...other.config.responseSchemas } as MergedResponses,
+      },
+      middlewares: [
+        ...(this.middlewares as Middleware<MergedContext, TMetadata>[]),
+        ...(other.middlewares as Middleware<MergedContext, TMetadata>[]),
+      ],
+      // Keep validating after the middlewares of the other route marked to run before validation
+      validationIndex:
+        other.validationIndex > 0 ? this.middlewares.length + other.validationIndex : this.validationIndex,
+      handleServerError: other.handleServerError ?? this.handleServerError,
+      handleOutputValidationError: other.handleOutputValidationError ?? this.handleOutputValidationError,
+      formatValidationError: other.formatValidationError ?? this.formatValidationError,
+      arrayParsing: other.arrayParsing ?? this.arrayParsing,
+      bodyParsers: { ...this.bodyParsers, ...other.bodyParsers },
+      bodyLimits: { ...this.bodyLimits, ...other.bodyLimits },
+      coerceOptions: { ...this.coerceOptions, ...other.coerceOptions },
+      metadataSchema: this.metadataSchema ?? other.metadataSchema,
+      metadataValue: this.metadataValue ?? other.metadataValue,
+      openapiOptions:
+        this.openapiOptions || other.openapiOptions ? { ...this.openapiOptions, ...other.openapiOptions } : undefined,
+      corsOptions: other.corsOptions ?? this.corsOptions,
+      lifecycleHooks: [...this.lifecycleHooks, ...other.lifecycleHooks],
+      idempotencyOptions: other.idempotencyOptions ?? this.idempotencyOptions,
+      cacheOptions: other.cacheOptions ?? this.cacheOptions,
+      paginationOptions: other.paginationOptions ?? this.paginationOptions,
+      timeoutOptions: other.timeoutOptions ?? this.timeoutOptions,
       contextType: {} as MergedContext,
     });
   }
@@ -115,99 +944,506 @@ export class RouteHandlerBuilder<
    * @param handler - The handler function that will be called when the route is hit
    * @returns The original route handler that Next.js expects with the validation logic
    */
-  handler<TReturn>(
-    handler: HandlerFunction<z.infer<TParams>, z.infer<TQuery>, z.infer<TBody>, TContext, TReturn>,
-  ): OriginalRouteHandler<TReturn> {
-    return async (request, context): Promise<Response> => {
+  handler<TReturn extends InferOutputInput<TOutput> | StatusResponse<number, unknown>>(
+    handler: HandlerFunction<
+      z.infer<TParams>,
+      z.infer<TQuery>,
+      z.infer<TBody>,
+      TContext,
+      TReturn,
+      z.infer<THeaders>,
+      z.infer<TCookies>,
+      TMetadata,
+      TResponses
+    >,
+  ): OriginalRouteHandler<
+    InferOutput<TOutput, TReturn>,
+    RouteHandlerBuilderConfig<TParams, TQuery, TBody, TOutput, THeaders, TCookies, TResponses>
+  > {
+    // Validate the metadata once, when the route is defined
+    const metadata: TMetadata = this.metadataSchema
+      ? this.metadataSchema.parse(this.metadataValue)
+      : this.metadataValue;
+
+    const handleRequest = async (
+      request: Request,
+      context: { params: Promise<Record<string, unknown>>; [stubbedDataKey]?: TContext },
+    ): Promise<Response> => {
+      const stubbedData = context?.[stubbedDataKey];
+      const startedAt = performance.now();
+      const timing: RouteTiming = { parse: 0, validate: 0, middleware: 0, handler: 0, total: 0 };
+      let params: Record<string, unknown> = {};
+      let query: unknown = {};
+      let headers: unknown = {};
+      let cookies: unknown = {};
+      let body: unknown = {};
+
+      // The middleware time is what remains once the other phases are measured
+      const getHookContext = (): RouteHookContext => {
+        const total = performance.now() - startedAt;
+        return {
+          request,
+          params,
+          query,
+          body,
+          headers,
+          cookies,
+          metadata,
+          timing: {
+            ...timing,
+            middleware: Math.max(0, total - timing.parse - timing.validate - timing.handler),
+            total,
+          },
+        };
+      };
+
       try {
+        await callHooks(this.lifecycleHooks, 'onRequest', request, getHookContext());
+
+        const parseStartedAt = performance.now();
         const url = new URL(request.url);
-        let params = context?.params ? await context.params : {};
-        let query = Object.fromEntries(url.searchParams.entries());
-
-        // Support both JSON and FormData parsing
-        let body: unknown = {};
-        if (request.method !== 'GET' && request.method !== 'DELETE') {
-          const contentType = request.headers.get('content-type') || '';
-          if (
-            contentType.includes('multipart/form-data') ||
-            contentType.includes('application/x-www-form-urlencoded')
-          ) {
-            const formData = await request.formData();
-            body = Object.fromEntries(formData.entries());
-          } else {
-            body = await request.json();
+        params = context?.params ? await context.params : {};
+        query = parseEntries(url.searchParams.entries(), this.config.querySchema, this.arrayParsing);
+        headers = Object.fromEntries(request.headers.entries());
+        cookies = parseCookies(request.headers.get('cookie'));
+        timing.parse = performance.now() - parseStartedAt;
+
+        // Coerce the string inputs of the enabled parts of the request before validation
+        const coerce = (location: RouteValidationLocation, schema: z.Schema, value: unknown) =>
+          this.coerceOptions[location] ? coerceValue(schema, value) : value;
+
+        const parseRequest = async () => {
+          // Parse the body with the parser registered for its content type
+          if (request.method !== 'GET' && request.method !== 'DELETE') {
+            const bodyStartedAt = performance.now();
+            body = await parseBody(request, {
+              parsers: { ...defaultBodyParsers, ...this.bodyParsers },
+              contentTypes: this.config.contentTypes,
+              schema: this.config.bodySchema,
+              arrayParsing: this.arrayParsing,
+              limits: this.bodyLimits,
+            });
+            timing.parse += performance.now() - bodyStartedAt;
           }
-        }
 
-        // Validate the params against the provided schema
-        if (this.config.paramsSchema) {
-          const paramsResult = this.config.paramsSchema.safeParse(params);
-          if (!paramsResult.success) {
-            throw new InternalRouteHandlerError(
-              JSON.stringify({ message: 'Invalid params', errors: paramsResult.error.issues }),
-            );
+          const validateStartedAt = performance.now();
+
+          // Collect the issues of every part of the request before failing
+          const issues: RouteValidationIssue[] = [];
+
+          // Validate the params against the provided schema
+          if (this.config.paramsSchema) {
+            const paramsResult = this.config.paramsSchema.safeParse(coerce('params', this.config.paramsSchema, params));
+            if (paramsResult.success) {
+              params = paramsResult.data;
+            } else {
+              issues.push(...toValidationIssues(paramsResult.error, 'params'));
+            }
+          }
+
+          // Validate the query against the provided schema
+          if (this.config.querySchema) {
+            const queryResult = this.config.querySchema.safeParse(coerce('query', this.config.querySchema, query));
+            if (queryResult.success) {
+              query = queryResult.data;
+            } else {
+              issues.push(...toValidationIssues(queryResult.error, 'query'));
+            }
           }
-          params = paramsResult.data;
-        }
 
-        // Validate the query against the provided schema
-        if (this.config.querySchema) {
-          const queryResult = this.config.querySchema.safeParse(query);
-          if (!queryResult.success) {
-            throw new InternalRouteHandlerError(
-              JSON.stringify({ message: 'Invalid query', errors: queryResult.error.issues }),
+          // Validate the headers against the provided schema
+          if (this.config.headersSchema) {
+            const headersResult = this.config.headersSchema.safeParse(
+              coerce('headers', this.config.headersSchema, headers),
             );
+            if (headersResult.success) {
+              headers = headersResult.data;
+            } else {
+              issues.push(...toValidationIssues(headersResult.error, 'headers'));
+            }
           }
-          query = queryResult.data;
-        }
 
-        // Validate the body against the provided schema
-        if (this.config.bodySchema) {
-          const bodyResult = this.config.bodySchema.safeParse(body);
-          if (!bodyResult.success) {
-            throw new InternalRouteHandlerError(
-              JSON.stringify({ message: 'Invalid body', errors: bodyResult.error.issues }),
+          // Validate the cookies against the provided schema
+          if (this.config.cookiesSchema) {
+            const cookiesResult = this.config.cookiesSchema.safeParse(
+              coerce('cookies', this.config.cookiesSchema, cookies),
             );
+            if (cookiesResult.success) {
+              cookies = cookiesResult.data;
+            } else {
+              issues.push(...toValidationIssues(cookiesResult.error, 'cookies'));
+            }
           }
-          body = bodyResult.data;
-        }
 
-        // Execute middlewares and build context
-        let middlewareContext: TContext = {} as TContext;
-        for (const middleware of this.middlewares) {
-          const result = await middleware({
+          // Validate the body against the provided schema
+          if (this.config.bodySchema) {
+            const bodyResult = this.config.bodySchema.safeParse(coerce('body', this.config.bodySchema, body));
+            if (bodyResult.success) {
+              body = bodyResult.data;
+            } else {
+              issues.push(...toValidationIssues(bodyResult.error, 'body'));
+            }
+          }
+
+          timing.validate = performance.now() - validateStartedAt;
+
+          if (issues.length > 0) {
+            throw new RouteValidationError(issues);
+          }
+
+          // Decode the cursor of paginated routes once the query is valid
+          if (this.paginationOptions) {
+            query = await decodePaginationQuery(this.paginationOptions, query);
+          }
+        };
+
+        const runHandler = async (middlewareContext: TContext, signal: AbortSignal): Promise<Response> => {
+          // Call the handler function with the validated params, query, and body
+          const result = await handler(request, {
+            params: params as z.infer<TParams>,
+            query: query as z.infer<TQuery>,
+            body: body as z.infer<TBody>,
+            headers: headers as z.infer<THeaders>,
+            cookies: cookies as z.infer<TCookies>,
+            metadata,
+            data: middlewareContext,
+            signal,
+            respond: (status, body, init) => new StatusResponse(status, body, init?.headers),
+          });
+
+          // If the result is already a Response, return it
+          if (result instanceof Response) {
+            return result;
+          }
+
+          // Validate the body of `context.respond` against the schema of its status
+          if (result instanceof StatusResponse) {
+            const schema = (this.config.responseSchemas as ResponseSchemas | undefined)?.[result.status];
+            let responseBody: unknown = result.body;
+            if (schema) {
+              const responseResult = schema.safeParse(result.body);
+              if (!responseResult.success) {
+                return (
+                  this.handleOutputValidationError?.(responseResult.error) ??
+                  new Response(JSON.stringify({ message: 'Invalid output' }), { status: 500 })
+                );
+              }
+              responseBody = responseResult.data;
+            }
+
+            // Statuses such as 204 are sent without a body
+            if (responseBody === undefined) {
+              return new Response(null, { status: result.status, headers: result.headers });
+            }
+            return new Response(JSON.stringify(responseBody), {
+              status: result.status,
+              headers: { 'Content-Type': 'application/json', ...result.headers },
+            });
+          }
+
+          // Stream the events of async iterables, e.g. returned by an async generator
+          if (this.config.stream || isAsyncIterable(result)) {
+            if (!isAsyncIterable(result)) {
+              throw new Error('The handler of a streaming route must return an async iterable');
+            }
+            return createStreamResponse(result, {
+              format: 'ndjson',
+              ...this.config.stream,
+              schema: this.config.stream ? this.config.outputSchema : undefined,
+              signal,
+              // The status and headers are already sent, the error is only reported
+              onError: async (error) => {
+                await callHooks(this.lifecycleHooks, 'onError', error, request, getHookContext());
+                this.handleServerError?.(error as Error, { request, params, metadata });
+              },
+            });
+          }
+
+          // Wrap the page returned by paginated routes into the response envelope
+          let output: unknown = result;
+          let link: string | undefined;
+          if (this.paginationOptions) {
+            ({ envelope: output, link } = await createPaginatedEnvelope(
+              this.paginationOptions,
+              result,
+              request,
+              query,
+            ));
+          }
+
+          // Validate the output against the provided schema, stripping unknown keys
+          if (this.config.outputSchema) {
+            const outputResult = this.config.outputSchema.safeParse(output);
+            if (!outputResult.success) {
+              return (
+                this.handleOutputValidationError?.(outputResult.error) ??
+                new Response(JSON.stringify({ message: 'Invalid output' }), { status: 500 })
+              );
+            }
+            output = outputResult.data;
+          }
+
+          // Otherwise, return a new Response with the result (else NextJS will throw an error and nothing will be returned)
+          return new Response(JSON.stringify(output), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json', ...(link && { Link: link }) },
+          });
+        };
+
+        // The middlewares and the handler race against the deadline of the route, if any
+        const response = await runWithTimeout(this.timeoutOptions?.ms, request, (signal) =>
+          runMiddlewares({
+            // The data stubbed in tests replaces the middlewares
+            middlewares: stubbedData ? [] : this.middlewares,
+            validationIndex: stubbedData ? 0 : this.validationIndex,
             request,
-            context: middlewareContext,
+            metadata,
+            validate: parseRequest,
+            context: stubbedData,
+            run: async (middlewareContext) => {
+              const handlerStartedAt = performance.now();
+              const respond = () =>
+                this.idempotencyOptions
+                  ? handleIdempotentRequest(
+                      this.idempotencyOptions,
+                      request,
+                      { query, body, data: middlewareContext },
+                      () => runHandler(middlewareContext, signal),
+                    )
+                  : runHandler(middlewareContext, signal);
+              try {
+                return await (this.cacheOptions
+                  ? handleCachedRequest(this.cacheOptions, request, { params, query, data: middlewareContext }, respond)
+                  : respond());
+              } finally {
+                timing.handler = performance.now() - handlerStartedAt;
+              }
+            },
+          }),
+        );
+        const hookContext = getHookContext();
+        await callHooks(this.lifecycleHooks, 'onSuccess', response, hookContext.timing, hookContext);
+        return response;
+      } catch (error) {
+        if (error instanceof RouteValidationError) {
+          for (const location of error.locations) {
+            const issues = error.issues.filter((issue) => issue.location === location);
+            await callHooks(this.lifecycleHooks, 'onValidationError', issues, location, getHookContext());
+          }
+
+          if (this.formatValidationError) {
+            return this.formatValidationError(error, request);
+          }
+
+          return new Response(JSON.stringify(error), {
+            status: 400,
+            headers: { 'Content-Type': 'application/problem+json' },
           });
-          middlewareContext = { ...middlewareContext, ...result };
         }
 
-        // Call the handler function with the validated params, query, and body
-        const result = await handler(request, {
-          params: params as z.infer<TParams>,
-          query: query as z.infer<TQuery>,
-          body: body as z.infer<TBody>,
-          data: middlewareContext,
-        });
+        await callHooks(this.lifecycleHooks, 'onError', error, request, getHookContext());
 
-        // If the result is already a Response, return it
-        if (result instanceof Response) {
-          return result;
+        if (error instanceof GatewayTimeoutError && this.timeoutOptions?.onTimeout) {
+          return this.timeoutOptions.onTimeout(request);
         }
 
-        // Otherwise, return a new Response with the result (else NextJS will throw an error and nothing will be returned)
-        return new Response(JSON.stringify(result), { status: 200, headers: { 'Content-Type': 'application/json' } });
-      } catch (error) {
-        if (error instanceof InternalRouteHandlerError) {
-          return new Response(error.message, { status: 400 });
+        if (error instanceof HttpError) {
+          return error.toResponse();
+        }
+
+        // Zod errors thrown by the handler, e.g. when parsing data with `schema.parse`, are client errors
+        if (error instanceof ZodError) {
+          return new BadRequestError('Invalid data', { code: 'VALIDATION_ERROR', details: error.issues }).toResponse();
         }
 
         if (this.handleServerError) {
-          return this.handleServerError(error as Error);
+          return this.handleServerError(error as Error, { request, params, metadata });
         }
 
         return new Response(JSON.stringify({ message: 'Internal server error' }), { status: 500 });
       }
     };
+
+    const routeHandler = async (
+      request: Request,
+      context: { params: Promise<Record<string, unknown>> },
+    ): Promise<Response> => {
+      if (!this.corsOptions) {
+        return handleRequest(request, context);
+      }
+
+      // Preflight requests are answered before the middlewares run, browsers send them without credentials
+      if (isPreflightRequest(request)) {
+        return createPreflightResponse(this.corsOptions, request);
+      }
+
+      return applyCorsHeaders(this.corsOptions, request, await handleRequest(request, context));
+    };
+
+    // Attach the definition so the route can be introspected, e.g. to generate an OpenAPI document
+    return Object.assign(routeHandler, {
+      definition: { config: this.config, openapi: this.openapiOptions },
+    });
+  }
+
+  /**
+   * Create a Next.js server action sharing the middlewares, body schema and output schema of the route.
+   * The middlewares receive a `POST` request without a body, pass `options.request` to give them the headers of the action.
+   * @param action - The function called with the validated input and the context data of the middlewares
+   * @param options - How the request given to the middlewares is created
+   * @returns The server action, resolving to its data, the validation issues of its input or the message of the error it threw
+   *
+   * @example
+   * ```ts
+   * export const createPost = authRoute
+   *   .body(z.object({ title: z.string() }))
+   *   .action(async (input, context) => db.post.create({ data: { ...input, authorId: context.data.user.id } }));
+   * ```
+   */
+  action<TReturn extends InferOutputInput<TOutput>>(
+    action: ActionFunction<z.infer<TBody>, TContext, TReturn, TMetadata>,
+    options: ActionOptions = {},
+  ): ServerAction<z.input<TBody>, InferOutput<TOutput, TReturn>> {
+    type TData = InferOutput<TOutput, TReturn>;
+
+    // Validate the metadata once, when the action is defined
+    const metadata: TMetadata = this.metadataSchema
+      ? this.metadataSchema.parse(this.metadataValue)
+      : this.metadataValue;
+
+    return async (input) => {
+      let request = new Request('http://localhost/', { method: 'POST' });
+      // The middlewares get this response back from `next` when the action ran
+      const actionResponse = new Response(null, { status: 204 });
+      let result: ActionResult<TData> | undefined;
+      let body: unknown = input;
+
+      try {
+        if (options.request) {
+          request = await options.request();
+        }
+
+        const validate = async () => {
+          if (input instanceof FormData) {
+            body = parseEntries(input.entries(), this.config.bodySchema, this.arrayParsing);
+          }
+          if (this.config.bodySchema) {
+            const bodyResult = this.config.bodySchema.safeParse(
+              this.coerceOptions.body ? coerceValue(this.config.bodySchema, body) : body,
+            );
+            if (!bodyResult.success) {
+              throw new RouteValidationError(toValidationIssues(bodyResult.error, 'body'));
+            }
+            body = bodyResult.data;
+          }
+        };
+
+        const response = await runMiddlewares({
+          middlewares: this.middlewares,
+          validationIndex: this.validationIndex,
+          request,
+          metadata,
+          validate,
+          run: async (middlewareContext) => {
+            const data = await action(body as z.infer<TBody>, { data: middlewareContext, metadata });
+
+            // Validate the output against the provided schema, stripping unknown keys
+            if (this.config.outputSchema && !this.config.stream) {
+              const outputResult = this.config.outputSchema.safeParse(data);
+              result = outputResult.success ? { data: outputResult.data } : { serverError: 'Invalid output' };
+            } else {
+              result = { data: data as TData };
+            }
+            return actionResponse;
+          },
+        });
+
+        // The action ran, even when a middleware replaced the response returned by `next`
+        if (result) {
+          return result;
+        }
+        // A middleware stopped the chain, e.g. when the user isn't authenticated
+        return { serverError: await getResponseMessage(response) };
+      } catch (error) {
+        if (error instanceof RouteValidationError) {
+          return { validationErrors: error.issues };
+        }
+        if (error instanceof ZodError) {
+          return { validationErrors: toValidationIssues(error, 'body') };
+        }
+        if (error instanceof HttpError) {
+          return { serverError: error.message };
+        }
+        if (this.handleServerError) {
+          const response = await this.handleServerError(error as Error, { request, params: {}, metadata });
+          return { serverError: await getResponseMessage(response) };
+        }
+        return { serverError: 'Internal server error' };
+      }
+    };
+  }
+
+  /**
+   * Create the handlers of several methods sharing the params, middlewares and options defined so far.
+   * An OPTIONS handler listing the allowed methods, and answering preflight requests when CORS is enabled, is added.
+   * The other methods respond with a 405.
+   * @param methods - A function per method, building its handler from the shared builder
+   * @returns The route handlers keyed by method, to export from the `route.ts` file
+   *
+   * @example
+   * ```ts
+   * export const { GET, POST, OPTIONS } = createZodRoute()
+   *   .params(z.object({ id: z.string() }))
+   *   .methods({
+   *     GET: (route) => route.handler((request, context) => getItem(context.params.id)),
+   *     POST: (route) => route.body(itemSchema).handler((request, context) => updateItem(context.body)),
+   *   });
+   * ```
+   */
+  methods<TMethods extends Partial<Record<HttpMethod, (builder: this) => OriginalRouteHandler>>>(
+    methods: TMethods,
+  ): MethodHandlers<TMethods> {
+    const handlers: Partial<Record<HttpMethod, OriginalRouteHandler>> = {};
+    for (const method of httpMethods) {
+      handlers[method] = methods[method]?.(this);
+    }
+
+    const allowedMethods = httpMethods.filter(
+      (method) => handlers[method] || method === 'OPTIONS' || (method === 'HEAD' && handlers.GET),
+    );
+    const allow = allowedMethods.join(', ');
+
+    const createStaticHandler = (createResponse: () => Response): OriginalRouteHandler =>
+      Object.assign(
+        async (request: Request) => {
+          if (!this.corsOptions) {
+            return createResponse();
+          }
+          if (isPreflightRequest(request)) {
+            return createPreflightResponse(this.corsOptions, request, allowedMethods);
+          }
+          return applyCorsHeaders(this.corsOptions, request, createResponse());
+        },
+        { definition: { config: this.config } },
+      );
+
+    handlers.OPTIONS ??= createStaticHandler(() => new Response(null, { status: 204, headers: { Allow: allow } }));
+
+    for (const method of httpMethods) {
+      if (!allowedMethods.includes(method)) {
+        handlers[method] = createStaticHandler(
+          () =>
+            new Response(JSON.stringify({ message: 'Method not allowed' }), {
+              status: 405,
+              headers: { Allow: allow, 'Content-Type': 'application/json' },
+            }),
+        );
+      }
+    }
+
+    // Drop the methods left to Next.js, such as HEAD when GET is defined
+    return Object.fromEntries(
+      Object.entries(handlers).filter(([, handler]) => handler !== undefined),
+    ) as MethodHandlers<TMethods>;
   }
 }
@@ -0,0 +1,156 @@
+import type { ReadableStream as WebReadableStream } from 'node:stream/web';
+import { Schema } from 'zod';
+
+// The global web stream, typed with the Node.js declaration since the DOM types are not included
+declare const ReadableStream: typeof WebReadableStream;
+
+/**
+ * How the events of a streaming route are encoded:
+ * - `sse`: Server-Sent Events (`text/event-stream`), one `data:` message per event
+ * - `ndjson`: newline-delimited JSON (`application/x-ndjson`), one line per event
+ */
+export type StreamFormat = 'sse' | 'ndjson';
+
+export type StreamOptions = {
+  /** Interval between heartbeats in milliseconds, 15 seconds for SSE and disabled for NDJSON by default, 0 to disable */
+  heartbeat?: number;
+};
+
+export type StreamConfig = StreamOptions & { format: StreamFormat };
+
+export const streamContentTypes: Record<StreamFormat, string> = {
+  sse: 'text/event-stream',
+  ndjson: 'application/x-ndjson',
+};
+
+const encoders: Record<
+  StreamFormat,
+  { event: (data: unknown) => string; error: (message: string) => string; heartbeat: string }
+> = {
+  sse: {
+    event: (data) => `data: ${JSON.stringify(data)}\n\n`,
+    error: (message) => `event: error\ndata: ${JSON.stringify({ message })}\n\n`,
+    heartbeat: ': heartbeat\n\n',
+  },
+  ndjson: {
+    event: (data) => `${JSON.stringify(data)}\n`,
+    error: (message) => `${JSON.stringify({ error: { message } })}\n`,
+    heartbeat: '\n',
+  },
+};
+
+/**
+ * Check if a value returned by a handler is an async iterable, e.g. the result of an async generator
+ */
+export function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return typeof value === 'object' && value !== null && Symbol.asyncIterator in value;
+}
+
+/**
+ * Stream the events of an async iterable, validating each event against the schema.
+ * The iterable is stopped when the client disconnects, and an error event ends the stream when an event is invalid
+ * or the iterable throws.
+ * @param events - The events to send
+ * @param options - The format, the event schema, the heartbeat interval, the signal of the request and the callback
+ * reporting the errors thrown by the iterable once the response is sent
+ * @returns The streaming response
+ */
+export function createStreamResponse(
+  events: AsyncIterable<unknown>,
+  options: StreamConfig & { schema?: Schema; signal?: AbortSignal; onError?: (error: unknown) => unknown },
+): Response {
+  const { format, schema, signal, onError } = options;
+  const heartbeat = options.heartbeat ?? (format === 'sse' ? 15_000 : 0);
+  const encoder = encoders[format];
+  const textEncoder = new TextEncoder();
+  const iterator = events[Symbol.asyncIterator]();
+
+  let closed = false;
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+  let abort: (() => void) | undefined;
+
+  const cleanup = () => {
+    closed = true;
+    clearInterval(heartbeatTimer);
+    if (abort) {
+      signal?.removeEventListener('abort', abort);
+    }
+  };
+
+  // Stop the iterable when the client disconnects, running its `finally` blocks
+  const stop = () => {
+    if (!closed) {
+      cleanup();
+      void iterator.return?.();
+    }
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => controller.enqueue(textEncoder.encode(chunk));
+      const close = (errorMessage?: string) => {
+        if (closed) {
+          return;
+        }
+        if (errorMessage) {
+          send(encoder.error(errorMessage));
+        }
+        cleanup();
+        controller.close();
+      };
+
+      abort = () => {
+        if (!closed) {
+          stop();
+          controller.close();
+        }
+      };
+      if (signal?.aborted) {
+        abort();
+        return;
+      }
+      signal?.addEventListener('abort', abort);
+
+      if (heartbeat > 0) {
+        heartbeatTimer = setInterval(() => send(encoder.heartbeat), heartbeat);
+      }
+
+      const run = async () => {
+        try {
+          for (;;) {
+            const { done, value } = await iterator.next();
+            if (done || closed) {
+              close();
+              return;
+            }
+
+            const result = schema ? schema.safeParse(value) : { success: true as const, data: value };
+            if (!result.success) {
+              await iterator.return?.();
+              close('Invalid output');
+              return;
+            }
+            send(encoder.event(result.data));
+          }
+        } catch (error) {
+          close('Internal server error');
+          try {
+            await onError?.(error);
+          } catch {
+            // The response is already sent, errors thrown while reporting the error are ignored
+          }
+        }
+      };
+
+      void run();
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: { 'Content-Type': streamContentTypes[format], 'Cache-Control': 'no-cache, no-transform' },
+  });
+}
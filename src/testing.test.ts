@@ -0,0 +1,134 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { z } from 'zod';
+
+import { createZodRoute } from '.';
+import { assertValidationError, invokeRoute, stubMiddleware } from './testing';
+
+describe('invokeRoute', () => {
+  it('should build the request from the params, query, headers and cookies', async () => {
+    const GET = createZodRoute()
+      .params(z.object({ id: z.string() }))
+      .query(z.object({ tags: z.array(z.string()), filter: z.object({ status: z.string() }) }))
+      .headers(z.object({ 'x-api-key': z.string() }))
+      .cookies(z.object({ session: z.string() }))
+      .handler((request, context) => ({
+        method: request.method,
+        id: context.params.id,
+        query: context.query,
+        apiKey: context.headers['x-api-key'],
+        session: context.cookies.session,
+      }));
+
+    const { status, headers, json } = await invokeRoute(GET, {
+      params: { id: '1' },
+      query: { tags: ['a', 'b'], filter: { status: 'open' } },
+      headers: { 'x-api-key': 'secret' },
+      cookies: { session: 'a b' },
+    });
+
+    expect(status).toBe(200);
+    expect(headers.get('content-type')).toBe('application/json');
+    expect(json).toEqual({
+      method: 'GET',
+      id: '1',
+      query: { tags: ['a', 'b'], filter: { status: 'open' } },
+      apiKey: 'secret',
+      session: 'a b',
+    });
+    expectTypeOf(json).toEqualTypeOf<{
+      method: string;
+      id: string;
+      query: { tags: string[]; filter: { status: string } };
+      apiKey: string;
+      session: string;
+    }>();
+  });
+
+  it('should send the body as JSON and the form data as multipart', async () => {
+    const POST = createZodRoute()
+      .body(z.object({ name: z.string() }))
+      .handler((request, context) => ({
+        method: request.method,
+        contentType: request.headers.get('content-type')?.split(';')[0],
+        name: context.body.name,
+      }));
+
+    expect((await invokeRoute(POST, { body: { name: 'John' } })).json).toEqual({
+      method: 'POST',
+      contentType: 'application/json',
+      name: 'John',
+    });
+    expect((await invokeRoute(POST, { method: 'PUT', formData: { name: 'Jane' } })).json).toEqual({
+      method: 'PUT',
+      contentType: 'multipart/form-data',
+      name: 'Jane',
+    });
+  });
+
+  it('should type the result with the statuses sent with context.respond', async () => {
+    const GET = createZodRoute()
+      .responses({ 200: z.object({ id: z.string() }), 404: z.object({ message: z.string() }) })
+      .handler((request, context) => context.respond(404, { message: 'User not found' }));
+
+    const result = await invokeRoute(GET);
+
+    expect(result).toMatchObject({ status: 404, json: { message: 'User not found' } });
+    if (result.status === 404) {
+      expectTypeOf(result.json).toEqualTypeOf<{ message: string }>();
+    }
+  });
+
+  it('should add the stubbed data to the context', async () => {
+    const GET = createZodRoute()
+      .use(stubMiddleware({ user: { id: '1' } }))
+      .handler((request, context) => ({ userId: context.data.user.id }));
+
+    expect((await invokeRoute(GET)).json).toEqual({ userId: '1' });
+  });
+
+  it('should replace the middlewares of a route with the given data', async () => {
+    const GET = createZodRoute()
+      .use(async () => Response.json({ message: 'Unauthorized' }, { status: 401 }))
+      .use(async () => ({ user: { id: 'from-middleware' } }))
+      .query(z.object({ page: z.coerce.number() }))
+      .handler((request, context) => ({ userId: context.data.user.id, page: context.query.page }));
+
+    expect((await invokeRoute(GET, { query: { page: 1 } })).status).toBe(401);
+    expect((await invokeRoute(GET, { query: { page: 1 }, data: { user: { id: '1' } } })).json).toEqual({
+      userId: '1',
+      page: 1,
+    });
+
+    const invalid = await invokeRoute(GET, { query: { page: 'first' }, data: { user: { id: '1' } } });
+    assertValidationError(invalid, 'query', 'page');
+  });
+});
+
+describe('assertValidationError', () => {
+  const POST = createZodRoute()
+    .query(z.object({ page: z.coerce.number() }))
+    .body(z.object({ items: z.array(z.object({ quantity: z.number() })) }))
+    .handler(() => ({ ok: true }));
+
+  it('should return the issue matching the section and path', async () => {
+    const result = await invokeRoute(POST, { query: { page: 'one' }, body: { items: [{ quantity: '1' }] } });
+
+    expect(assertValidationError(result, 'query', 'page')).toMatchObject({ location: 'query', path: ['page'] });
+    expect(assertValidationError(result, 'body', ['items', 0, 'quantity'])).toMatchObject({
+      location: 'body',
+      path: ['items', 0, 'quantity'],
+    });
+    expect(assertValidationError(result, 'body')).toMatchObject({ location: 'body' });
+  });
+
+  it('should throw when no issue matches', async () => {
+    const result = await invokeRoute(POST, { query: { page: 'one' }, body: { items: [] } });
+
+    expect(() => assertValidationError(result, 'body', 'items')).toThrow(
+      'Expected a validation issue for body items, got: query page',
+    );
+    expect(() => assertValidationError({ status: 200, json: {} }, 'query')).toThrow(
+      'Expected a validation error response, got status 200',
+    );
+  });
+});
@@ -0,0 +1,170 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { appendSearchParams, parseResponseBody, serializeBody, toFormData } from './client';
+import { RouteValidationIssue, RouteValidationLocation, isRouteValidationProblem } from './errors';
+import { MiddlewareFn, stubbedDataKey } from './routeHandlerBuilder';
+import { StatusResponse, UnwrapResponse } from './types';
+
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+type RouteHandlerLike = (request: Request, context: { params: Promise<any> }) => Promise<any>;
+
+export type InvokeRouteOptions = {
+  /**
+   * The request method, `POST` when a body is sent and `GET` otherwise
+   */
+  method?: string;
+  /**
+   * The URL of the request, `http://localhost/` by default
+   */
+  url?: string;
+  params?: Record<string, string | string[]>;
+  /**
+   * The query, serialized like the route client does: repeated keys for arrays and brackets for nested objects
+   */
+  query?: Record<string, unknown>;
+  /**
+   * The body, sent as JSON unless it contains files
+   */
+  body?: unknown;
+  /**
+   * The body sent as `multipart/form-data`
+   */
+  formData?: FormData | Record<string, unknown>;
+  headers?: Record<string, string>;
+  cookies?: Record<string, string>;
+  /**
+   * The context data given to the handler instead of running the middlewares, e.g. the user of an auth middleware.
+   * The input is still validated.
+   */
+  data?: object;
+  init?: Omit<RequestInit, 'body' | 'method'>;
+};
+
+type ToInvokeResult<T> =
+  T extends StatusResponse<infer TStatus, infer TBody>
+    ? { status: TStatus; headers: Headers; json: TBody }
+    : { status: number; headers: Headers; json: T };
+
+/**
+ * Result of `invokeRoute`, discriminated on `status` when the route responds with `context.respond`.
+ * Error responses are not part of the type: their body is available through `json` as well.
+ */
+export type InvokeRouteResult<THandler extends RouteHandlerLike> =
+  IsAny<UnwrapResponse<ReturnType<THandler>>> extends true
+    ? { status: number; headers: Headers; json: any }
+    : ToInvokeResult<UnwrapResponse<ReturnType<THandler>>>;
+
+/**
+ * Build the request of a route handler from its params, query, body, headers and cookies
+ * @param options - The parts of the request
+ * @returns The request and the context passed to the route handler by Next.js
+ */
+export function createRouteRequest(options: InvokeRouteOptions = {}): {
+  request: Request;
+  context: { params: Promise<Record<string, string | string[]>>; [stubbedDataKey]?: object };
+} {
+  const url = new URL(options.url ?? 'http://localhost/');
+  Object.entries(options.query ?? {}).forEach(([key, value]) => appendSearchParams(url.searchParams, value, key));
+
+  const headers = new Headers(options.init?.headers);
+  Object.entries(options.headers ?? {}).forEach(([key, value]) => headers.set(key, value));
+
+  const cookies = Object.entries(options.cookies ?? {}).map(([name, value]) => `${name}=${encodeURIComponent(value)}`);
+  if (cookies.length > 0) {
+    headers.set('cookie', [headers.get('cookie'), ...cookies].filter(Boolean).join('; '));
+  }
+
+  let body: RequestInit['body'];
+  if (options.formData !== undefined) {
+    body = options.formData instanceof FormData ? options.formData : toFormData(options.formData);
+  } else if (options.body !== undefined) {
+    const serialized = serializeBody(options.body);
+    body = serialized.body;
+    if (serialized.contentType && !headers.has('content-type')) {
+      headers.set('content-type', serialized.contentType);
+    }
+  }
+
+  const method = options.method ?? (body === undefined ? 'GET' : 'POST');
+
+  return {
+    request: new Request(url, { ...options.init, method, headers, body }),
+    context: { params: Promise.resolve(options.params ?? {}), ...(options.data && { [stubbedDataKey]: options.data }) },
+  };
+}
+
+/**
+ * Call a route handler without Next.js, building its request from the options
+ * @param handler - The route handler created with `createZodRoute`
+ * @param options - The params, query, body, form data, headers and cookies of the request, and the context data
+ * replacing the middlewares
+ * @returns The status, headers and parsed JSON body of the response
+ *
+ * @example
+ * ```ts
+ * const { status, json } = await invokeRoute(GET, { params: { id: '1' }, query: { include: 'posts' } });
+ * ```
+ */
+export async function invokeRoute<THandler extends RouteHandlerLike>(
+  handler: THandler,
+  options: InvokeRouteOptions = {},
+): Promise<InvokeRouteResult<THandler>> {
+  const { request, context } = createRouteRequest(options);
+  const response: Response = await handler(request, context);
+
+  return {
+    status: response.status,
+    headers: response.headers,
+    json: await parseResponseBody(response),
+  } as InvokeRouteResult<THandler>;
+}
+
+/**
+ * Create a middleware adding fixed data to the context, for routes built in tests.
+ * Pass `data` to `invokeRoute` to replace the middlewares of the routes exported by the app.
+ * @param data - The data added to the context
+ *
+ * @example
+ * ```ts
+ * const GET = createZodRoute().use(stubMiddleware({ user: { id: '1' } })).handler(getUser);
+ * ```
+ */
+export function stubMiddleware<TData extends object>(data: TData): MiddlewareFn<any, TData, any> {
+  return async () => data;
+}
+
+function formatPath(path: (string | number)[]) {
+  return path.length > 0 ? path.join('.') : '(root)';
+}
+
+/**
+ * Assert that a response is a validation error with an issue for a part of the request, throwing otherwise
+ * @param result - The result of `invokeRoute`
+ * @param location - The part of the request the issue comes from
+ * @param path - The path of the invalid value, e.g. `'user.email'` or `['items', 0]`, any path when omitted
+ * @returns The matching issue
+ */
+export function assertValidationError(
+  result: { status: number; json: unknown },
+  location: RouteValidationLocation,
+  path?: string | (string | number)[],
+): RouteValidationIssue {
+  if (result.status !== 400 || !isRouteValidationProblem(result.json)) {
+    throw new Error(`Expected a validation error response, got status ${result.status}`);
+  }
+
+  const expectedPath = typeof path === 'string' ? path.split('.').filter(Boolean) : path?.map(String);
+  const issue = result.json.errors.find(
+    (candidate) =>
+      candidate.location === location && (!expectedPath || formatPath(candidate.path) === formatPath(expectedPath)),
+  );
+
+  if (!issue) {
+    const found = result.json.errors.map((candidate) => `${candidate.location} ${formatPath(candidate.path)}`);
+    throw new Error(
+      `Expected a validation issue for ${location}${expectedPath ? ` ${formatPath(expectedPath)}` : ''}, got: ${found.join(', ')}`,
+    );
+  }
+
+  return issue;
+}
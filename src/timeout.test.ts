@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createZodRoute } from '.';
+
+const context = { params: Promise.resolve({}) };
+
+const waitForAbort = (signal: AbortSignal) =>
+  new Promise((resolve, reject) => {
+    signal.addEventListener('abort', () => reject(signal.reason));
+  });
+
+describe('timeout', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should respond with a 504 and abort the signal of the handler after the deadline', async () => {
+    let signal: AbortSignal | undefined;
+    const GET = createZodRoute()
+      .timeout(1000)
+      .handler(async (request, context) => {
+        signal = context.signal;
+        return waitForAbort(context.signal);
+      });
+
+    const responsePromise = GET(new Request('http://localhost/'), context);
+    await vi.advanceTimersByTimeAsync(1000);
+    const response = await responsePromise;
+
+    expect(response.status).toBe(504);
+    expect(await response.json()).toMatchObject({
+      status: 504,
+      code: 'TIMEOUT',
+      message: 'The request timed out after 1000ms',
+    });
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('should respond normally before the deadline', async () => {
+    const GET = createZodRoute({ timeout: 1000 }).handler(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      return { ok: true };
+    });
+
+    const responsePromise = GET(new Request('http://localhost/'), context);
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(await (await responsePromise).json()).toEqual({ ok: true });
+  });
+
+  it('should include the middlewares in the deadline and use the configured response', async () => {
+    const onError = vi.fn();
+    const GET = createZodRoute({
+      timeout: { ms: 5000, onTimeout: () => Response.json({ error: 'Too slow' }, { status: 503 }) },
+      hooks: { onError },
+    })
+      .use(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 600));
+        return {};
+      })
+      .timeout(500)
+      .handler(() => ({ ok: true }));
+
+    const responsePromise = GET(new Request('http://localhost/'), context);
+    await vi.advanceTimersByTimeAsync(500);
+    const response = await responsePromise;
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toEqual({ error: 'Too slow' });
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'GatewayTimeoutError' }),
+      expect.anything(),
+      expect.anything(),
+    );
+  });
+
+  it('should abort the signal of the handler when the request is aborted', async () => {
+    const controller = new AbortController();
+    let signal: AbortSignal | undefined;
+    const GET = createZodRoute().handler(async (request, context) => {
+      signal = context.signal;
+      controller.abort();
+      return { aborted: context.signal.aborted };
+    });
+
+    const response = await GET(new Request('http://localhost/', { signal: controller.signal }), context);
+
+    expect(await response.json()).toEqual({ aborted: true });
+    expect(signal?.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,59 @@
+import { GatewayTimeoutError } from './errors';
+
+export type TimeoutOptions = {
+  /** Time given to the middlewares and the handler, in milliseconds */
+  ms: number;
+  /** Build the response sent on timeout, a `504` problem response by default */
+  onTimeout?: (request: Request) => Response | Promise<Response>;
+};
+
+/**
+ * Create a signal aborted when the request is aborted, e.g. when the client disconnects
+ */
+function createRequestSignal(request: Request) {
+  const controller = new AbortController();
+  if (request.signal.aborted) {
+    controller.abort(request.signal.reason);
+  } else {
+    request.signal.addEventListener('abort', () => controller.abort(request.signal.reason), { once: true });
+  }
+  return controller;
+}
+
+/**
+ * Run the middlewares and the handler with a signal aborted when the request is aborted or the deadline is reached
+ * @param timeout - The time given to `run` in milliseconds, no deadline when undefined
+ * @param request - The request, whose signal is forwarded
+ * @param run - Run the middlewares and the handler with the signal
+ * @returns The result of `run`
+ * @throws GatewayTimeoutError when the deadline is reached first
+ */
+export async function runWithTimeout<T>(
+  timeout: number | undefined,
+  request: Request,
+  run: (signal: AbortSignal) => Promise<T>,
+): Promise<T> {
+  const controller = createRequestSignal(request);
+  if (timeout === undefined) {
+    return run(controller.signal);
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new GatewayTimeoutError(`The request timed out after ${timeout}ms`, { code: 'TIMEOUT' });
+      controller.abort(error);
+      reject(error);
+    }, timeout);
+  });
+
+  const result = run(controller.signal);
+  // The handler keeps running after the deadline until it handles the abort, its errors are ignored
+  result.catch(() => {});
+
+  try {
+    return await Promise.race([result, deadline]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
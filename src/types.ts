@@ -1,32 +1,302 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { Schema } from 'zod';
+import { AnyZodObject, Schema, ZodError, ZodIntersection, ZodObject, ZodTypeDef, input, objectUtil, output } from 'zod';
+
+import { RouteValidationError, RouteValidationIssue } from './errors';
+import { PaginationMode } from './pagination';
+import { StreamConfig } from './stream';
 
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 export class RouteResponse<T> extends Response {
   declare json: () => Promise<any>;
 }
 
-export type HandlerFunction<TParams, TQuery, TBody, TContext, TReturn = any> = (
+/**
+ * Response returned by `context.respond`, sent with its status once its body is validated against the schema of that status
+ */
+export class StatusResponse<TStatus extends number, TBody> {
+  readonly status: TStatus;
+  readonly body: TBody;
+  readonly headers?: Record<string, string>;
+
+  constructor(status: TStatus, body: TBody, headers?: Record<string, string>) {
+    this.status = status;
+    this.body = body;
+    this.headers = headers;
+  }
+}
+
+/**
+ * Schemas of the responses of a route, keyed by status
+ */
+export type ResponseSchemas = Record<number, Schema>;
+
+/**
+ * Respond with one of the statuses defined with `responses`, the body is typed with the schema of that status
+ */
+export type RespondFn<TResponses> = <TStatus extends keyof TResponses & number>(
+  status: TStatus,
+  body: TResponses[TStatus] extends Schema ? input<TResponses[TStatus]> : never,
+  init?: { headers?: Record<string, string> },
+) => StatusResponse<TStatus, TResponses[TStatus] extends Schema ? output<TResponses[TStatus]> : never>;
+
+export type HandlerFunction<
+  TParams,
+  TQuery,
+  TBody,
+  TContext,
+  TReturn = any,
+  THeaders = Record<string, string>,
+  TCookies = Record<string, string>,
+  TMetadata = unknown,
+  TResponses = ResponseSchemas,
+> = (
   request: Request,
-  context: { params: TParams; query: TQuery; body: TBody; data: TContext },
+  context: {
+    params: TParams;
+    query: TQuery;
+    body: TBody;
+    headers: THeaders;
+    cookies: TCookies;
+    data: TContext;
+    metadata: TMetadata;
+    /** Aborted when the route times out or the client disconnects */
+    signal: AbortSignal;
+    respond: RespondFn<TResponses>;
+  },
 ) => Promise<RouteResponse<TReturn> | TReturn> | RouteResponse<TReturn> | TReturn;
 
-export interface RouteHandlerBuilderConfig {
-  paramsSchema: Schema;
-  querySchema: Schema;
-  bodySchema: Schema;
+export type ActionFunction<TBody, TContext, TReturn = any, TMetadata = unknown> = (
+  input: TBody,
+  context: {
+    data: TContext;
+    metadata: TMetadata;
+  },
+) => Promise<TReturn> | TReturn;
+
+export type ActionOptions = {
+  /**
+   * Create the request given to the middlewares, e.g. with the headers of `headers()` from `next/headers`,
+   * a `POST` request without headers by default
+   */
+  request?: () => Request | Promise<Request>;
+};
+
+/**
+ * Result of a server action: its data, the validation issues of its input, or the message of the error it threw
+ */
+export type ActionResult<TData> =
+  | { data: TData; validationErrors?: never; serverError?: never }
+  | { data?: never; validationErrors: RouteValidationIssue[]; serverError?: never }
+  | { data?: never; validationErrors?: never; serverError: string };
+
+/**
+ * Server action created with `action`, taking its input as an object or as the `FormData` of a form
+ */
+export type ServerAction<TInput, TData> = (input: TInput | FormData) => Promise<ActionResult<TData>>;
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS';
+
+export interface RouteHandlerBuilderConfig<
+  TParams extends Schema = Schema,
+  TQuery extends Schema = Schema,
+  TBody extends Schema = Schema,
+  TOutput extends Schema | undefined = Schema | undefined,
+  THeaders extends Schema = Schema,
+  TCookies extends Schema = Schema,
+  TResponses extends ResponseSchemas = ResponseSchemas,
+> {
+  paramsSchema: TParams;
+  querySchema: TQuery;
+  bodySchema: TBody;
+  outputSchema: TOutput;
+  headersSchema: THeaders;
+  cookiesSchema: TCookies;
+  /** Encoding of the events when the route streams its output, the output schema validates each event */
+  stream?: StreamConfig;
+  /** Schemas of the responses sent with `context.respond`, keyed by status */
+  responseSchemas?: TResponses;
+  /** Content types accepted for the body, any content type with a registered parser when undefined */
+  contentTypes?: string[];
 }
 
-export type OriginalRouteHandler<TReturn = any> = (
-  request: Request,
-  context: { params: Promise<Record<string, unknown>> },
-) => Promise<RouteResponse<TReturn>>;
+/**
+ * Options describing the route in the generated OpenAPI document
+ */
+export type RouteOpenApiOptions = {
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  operationId?: string;
+  deprecated?: boolean;
+};
 
-export type HandlerServerErrorFn = (error: Error) => Response;
+/**
+ * Definition attached to every route handler, used to introspect the route
+ */
+export type RouteDefinition<TConfig extends RouteHandlerBuilderConfig = RouteHandlerBuilderConfig> = {
+  config: TConfig;
+  openapi?: RouteOpenApiOptions;
+};
+
+export type OriginalRouteHandler<
+  TReturn = any,
+  TConfig extends RouteHandlerBuilderConfig = RouteHandlerBuilderConfig,
+> = {
+  (request: Request, context: { params: Promise<Record<string, unknown>> }): Promise<RouteResponse<TReturn>>;
+  readonly definition: RouteDefinition<TConfig>;
+};
+
+/**
+ * Details of the request that failed, to log the error with
+ */
+export type HandlerServerErrorContext = {
+  request: Request;
+  /** The params of the route, validated when the error is thrown after validation */
+  params: Record<string, unknown>;
+  metadata: unknown;
+};
+
+/**
+ * Build the response sent when the handler or a middleware throws an error.
+ * HttpErrors and ZodErrors are mapped to their responses without calling it.
+ */
+export type HandlerServerErrorFn = (error: Error, context: HandlerServerErrorContext) => Response;
+
+/**
+ * Called when the value returned by the handler doesn't match the output schema.
+ * Return a Response to override the default 500 response.
+ */
+export type HandlerOutputErrorFn = (error: ZodError) => Response | void;
+
+/**
+ * Build the response sent when the request fails validation.
+ * The default response is an `application/problem+json` body with status 400.
+ */
+export type FormatValidationErrorFn = (error: RouteValidationError, request: Request) => Response;
+
+/**
+ * Type helper to resolve the metadata type from the metadata schema given to `createZodRoute`
+ */
+export type InferMetadata<TMetadataSchema> = TMetadataSchema extends Schema ? output<TMetadataSchema> : unknown;
+
+type ExtendedSchema<TBase extends Schema, TExtension extends Schema> = Schema extends TBase
+  ? TExtension
+  : TBase extends AnyZodObject
+    ? TExtension extends AnyZodObject
+      ? ZodObject<
+          objectUtil.extendShape<TBase['shape'], TExtension['shape']>,
+          TExtension['_def']['unknownKeys'],
+          TExtension['_def']['catchall']
+        >
+      : ZodIntersection<TBase, TExtension>
+    : ZodIntersection<TBase, TExtension>;
+
+/**
+ * Type helper to resolve the schema extending another one: object schemas are merged, other schemas intersected.
+ * The extension replaces the base when no schema was defined before.
+ */
+export type ExtendSchema<TBase extends Schema, TExtension extends Schema> =
+  ExtendedSchema<TBase, TExtension> extends infer TSchema extends Schema ? TSchema : never;
+
+declare const eventStream: unique symbol;
+
+/**
+ * Output schema of a streaming route, validating each event of the stream
+ */
+export type EventStreamSchema<TEvent extends Schema> = TEvent & { readonly [eventStream]: true };
+
+declare const paginated: unique symbol;
+
+type PaginatedSchemaParts<TItem extends Schema, TMode extends PaginationMode, TCursor extends Schema> = {
+  readonly [paginated]: { item: TItem; mode: TMode; cursor: TCursor };
+};
+
+/**
+ * Page returned by the handler of a paginated route: the items, the cursor of the next page in cursor mode, and the total
+ */
+export type PaginatedPage<TItem, TMode extends PaginationMode, TCursor> = TMode extends 'cursor'
+  ? { items: TItem[]; nextCursor?: TCursor | null; total?: number }
+  : { items: TItem[]; total?: number };
+
+/**
+ * Response envelope of a paginated route, with the encoded cursor or the offset of the next page
+ */
+export type PaginatedEnvelope<TItem, TMode extends PaginationMode> = TMode extends 'cursor'
+  ? { items: TItem[]; nextCursor: string | null; total?: number }
+  : { items: TItem[]; nextOffset: number | null; total?: number };
+
+/**
+ * Output schema of a paginated route, validating the response envelope
+ */
+export type PaginatedSchema<TItem extends Schema, TMode extends PaginationMode, TCursor extends Schema> = Schema<
+  PaginatedEnvelope<output<TItem>, TMode>,
+  ZodTypeDef,
+  PaginatedEnvelope<input<TItem>, TMode>
+> &
+  PaginatedSchemaParts<TItem, TMode, TCursor>;
+
+/**
+ * Type helper to resolve the value the handler must return when an output schema is defined,
+ * an async iterable of events for streaming routes and a page of items for paginated routes
+ */
+export type InferOutputInput<TOutput> =
+  TOutput extends EventStreamSchema<Schema>
+    ? AsyncIterable<input<TOutput>>
+    : TOutput extends PaginatedSchemaParts<infer TItem, infer TMode, infer TCursor>
+      ? PaginatedPage<input<TItem>, TMode, input<TCursor>>
+      : TOutput extends Schema
+        ? input<TOutput>
+        : unknown;
+
+/**
+ * Type helper to resolve the value sent to the client, narrowed to the output schema when defined.
+ * Responses sent with `context.respond` are kept as they are.
+ */
+export type InferOutput<TOutput, TReturn> =
+  TReturn extends StatusResponse<number, unknown>
+    ? TReturn
+    : TOutput extends EventStreamSchema<Schema>
+      ? AsyncIterable<output<TOutput>>
+      : TOutput extends PaginatedSchemaParts<infer TItem, infer TMode, Schema>
+        ? // The items are typed from the handler when the route doesn't define an item schema
+          PaginatedEnvelope<
+            unknown extends output<TItem>
+              ? TReturn extends { items: (infer TReturnItem)[] }
+                ? TReturnItem
+                : unknown
+              : output<TItem>,
+            TMode
+          >
+        : TOutput extends Schema
+          ? output<TOutput>
+          : TReturn;
+
+/**
+ * Type helper to extract the value returned by a route handler from its response
+ */
+export type UnwrapResponse<T> =
+  T extends RouteResponse<infer U> ? U : T extends Promise<infer U> ? UnwrapResponse<U> : T;
+
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+type ToStatusResult<T> =
+  T extends StatusResponse<infer TStatus, infer TBody> ? { status: TStatus; body: TBody } : { status: 200; body: T };
+
+/**
+ * Type helper to extract the return type of a route handler.
+ * Routes responding with `context.respond` resolve to a union of `{ status, body }` discriminated on `status`.
+ */
+export type RouteResult<T extends (...args: any[]) => any> =
+  IsAny<UnwrapResponse<ReturnType<T>>> extends true
+    ? any
+    : [Extract<UnwrapResponse<ReturnType<T>>, StatusResponse<number, unknown>>] extends [never]
+      ? UnwrapResponse<ReturnType<T>>
+      : ToStatusResult<UnwrapResponse<ReturnType<T>>>;
 
-type UnwrapResponse<T> = T extends RouteResponse<infer U> ? U : T extends Promise<infer U> ? UnwrapResponse<U> : T;
+type SuccessBody<T> =
+  T extends StatusResponse<infer TStatus, infer TBody> ? (`${TStatus}` extends `2${string}` ? TBody : never) : T;
 
 /**
- * Type helper to extract the return type of a route handler
+ * Type helper to extract the body of the successful (2xx) responses of a route handler
  */
-export type RouteResult<T extends (...args: any[]) => any> = UnwrapResponse<ReturnType<T>>;
+export type RouteSuccessBody<T extends (...args: any[]) => any> = SuccessBody<UnwrapResponse<ReturnType<T>>>;
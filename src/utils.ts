@@ -0,0 +1,267 @@
+import { AnyZodObject, ZodFirstPartyTypeKind, ZodIntersection, ZodTypeAny, ZodTypeDef } from 'zod';
+
+import { streamContentTypes } from './stream';
+import { HttpMethod } from './types';
+
+export const httpMethods: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+/**
+ * Parse the value of a `Cookie` header into a plain object
+ * @param header - The raw `Cookie` header
+ * @returns The cookies keyed by name, the first occurrence wins for duplicated names
+ */
+export function parseCookies(header: string | null): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) {
+    return cookies;
+  }
+
+  for (const pair of header.split(';')) {
+    const separatorIndex = pair.indexOf('=');
+    if (separatorIndex === -1) {
+      continue;
+    }
+
+    const name = pair.slice(0, separatorIndex).trim();
+    if (!name || Object.prototype.hasOwnProperty.call(cookies, name)) {
+      continue;
+    }
+
+    let value = pair.slice(separatorIndex + 1).trim();
+    if (value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1);
+    }
+
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+
+  return cookies;
+}
+
+type SchemaDef = ZodTypeDef & Record<string, unknown> & { typeName?: ZodFirstPartyTypeKind };
+
+/**
+ * Get the kind of a schema, compared with the type name rather than `instanceof`
+ * so schemas created with another copy of zod are supported
+ */
+export function getSchemaKind(schema: ZodTypeAny): ZodFirstPartyTypeKind | undefined {
+  return (schema._def as SchemaDef).typeName;
+}
+
+/**
+ * Remove the wrappers (optional, nullable, default, effects...) around a schema
+ * @param schema - The schema to unwrap
+ * @returns The innermost schema
+ */
+export function unwrapSchema(schema: ZodTypeAny): ZodTypeAny {
+  const def = schema._def as SchemaDef;
+
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodOptional:
+    case ZodFirstPartyTypeKind.ZodNullable:
+    case ZodFirstPartyTypeKind.ZodDefault:
+    case ZodFirstPartyTypeKind.ZodCatch:
+    case ZodFirstPartyTypeKind.ZodReadonly:
+      return unwrapSchema(def.innerType as ZodTypeAny);
+    case ZodFirstPartyTypeKind.ZodBranded:
+      return unwrapSchema(def.type as ZodTypeAny);
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return unwrapSchema(def.schema as ZodTypeAny);
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return unwrapSchema(def.in as ZodTypeAny);
+    case ZodFirstPartyTypeKind.ZodLazy:
+      return unwrapSchema((def.getter as () => ZodTypeAny)());
+    default:
+      return schema;
+  }
+}
+
+/**
+ * Get the schemas a union or an intersection is made of, or the unwrapped schema itself
+ */
+export function getSchemaOptions(schema: ZodTypeAny): ZodTypeAny[] {
+  const unwrapped = unwrapSchema(schema);
+  const def = unwrapped._def as SchemaDef;
+
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodUnion:
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return [...(def.options as Iterable<ZodTypeAny>)].flatMap(getSchemaOptions);
+    case ZodFirstPartyTypeKind.ZodIntersection:
+      return [...getSchemaOptions(def.left as ZodTypeAny), ...getSchemaOptions(def.right as ZodTypeAny)];
+    default:
+      return [unwrapped];
+  }
+}
+
+/**
+ * Get the schema of a property or an item of an object, record, array or tuple schema
+ * @param schema - The parent schema
+ * @param key - The property name or the item index
+ * @returns The schema of the child, or undefined when the parent schema doesn't define it
+ */
+export function getChildSchema(schema: ZodTypeAny | undefined, key: string): ZodTypeAny | undefined {
+  if (!schema) {
+    return undefined;
+  }
+
+  for (const option of getSchemaOptions(schema)) {
+    const def = option._def as SchemaDef;
+
+    switch (def.typeName) {
+      case ZodFirstPartyTypeKind.ZodObject: {
+        const child = (def.shape as () => Record<string, ZodTypeAny>)()[key];
+        const catchall = def.catchall as ZodTypeAny;
+        if (child) {
+          return child;
+        }
+        if (getSchemaKind(catchall) !== ZodFirstPartyTypeKind.ZodNever) {
+          return catchall;
+        }
+        break;
+      }
+      case ZodFirstPartyTypeKind.ZodRecord:
+        return def.valueType as ZodTypeAny;
+      case ZodFirstPartyTypeKind.ZodArray:
+        return def.type as ZodTypeAny;
+      case ZodFirstPartyTypeKind.ZodTuple:
+        return (def.items as ZodTypeAny[])[Number(key)] ?? (def.rest as ZodTypeAny | null) ?? undefined;
+      default:
+        break;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Check if a schema accepts an array
+ */
+export function isArraySchema(schema: ZodTypeAny | undefined): boolean {
+  return (
+    !!schema &&
+    getSchemaOptions(schema).some((option) => {
+      const kind = getSchemaKind(option);
+      return kind === ZodFirstPartyTypeKind.ZodArray || kind === ZodFirstPartyTypeKind.ZodTuple;
+    })
+  );
+}
+
+/**
+ * Extend a schema with another one, merging object schemas and intersecting the others
+ * @param base - The schema defined before, if any
+ * @param extension - The schema extending it
+ * @returns The extended schema
+ */
+export function extendSchema(base: ZodTypeAny | undefined, extension: ZodTypeAny): ZodTypeAny {
+  if (!base) {
+    return extension;
+  }
+
+  if (
+    getSchemaKind(base) === ZodFirstPartyTypeKind.ZodObject &&
+    getSchemaKind(extension) === ZodFirstPartyTypeKind.ZodObject
+  ) {
+    return (base as AnyZodObject).merge(extension as AnyZodObject);
+  }
+
+  return ZodIntersection.create(base, extension);
+}
+
+/**
+ * Hash a string or bytes with SHA-256
+ * @returns The hex digest
+ */
+export async function hash(value: string | Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    typeof value === 'string' ? new TextEncoder().encode(value) : value,
+  );
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Interval between the sweeps of the expired entries of the memory stores
+const sweepInterval = 60_000;
+
+/**
+ * Create a map whose entries expire, backing the in-memory stores. The expired entries are dropped when read,
+ * and swept once per minute when writing, so the map doesn't grow with keys that are never read again.
+ */
+export function createExpiringMap<T>() {
+  const entries = new Map<string, { value: T; expiresAt: number }>();
+  let nextSweepAt = 0;
+
+  return {
+    get(key: string): T | undefined {
+      const entry = entries.get(key);
+      if (entry && entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry?.value;
+    },
+    set(key: string, value: T, ttl: number) {
+      const now = Date.now();
+      if (now >= nextSweepAt) {
+        nextSweepAt = now + sweepInterval;
+        for (const [entryKey, entry] of entries) {
+          if (entry.expiresAt <= now) {
+            entries.delete(entryKey);
+          }
+        }
+      }
+      entries.set(key, { value, expiresAt: now + ttl });
+    },
+    delete(key: string) {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * Encode bytes in base64, e.g. to store a binary body as a string
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode the bytes of a base64 string
+ */
+export function decodeBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+/**
+ * Check if a response streams its body as Server-Sent Events or NDJSON
+ */
+export function isStreamResponse(response: Response): boolean {
+  const contentType = response.headers.get('content-type') ?? '';
+  return Object.values(streamContentTypes).some((streamContentType) => contentType.includes(streamContentType));
+}
+
+/**
+ * Update the headers of a response, copying the response when its headers are immutable
+ * @param response - The response to update
+ * @param update - Set the headers, called with the headers of the response or of its copy
+ * @returns The updated response, or its copy
+ */
+export function updateHeaders(response: Response, update: (headers: Headers) => void): Response {
+  try {
+    update(response.headers);
+    return response;
+  } catch {
+    // Responses such as `Response.redirect()` have immutable headers
+    const copy = new Response(response.body, response);
+    update(copy.headers);
+    return copy;
+  }
+}